@@ -0,0 +1,458 @@
+const vscode = acquireVsCodeApi();
+const chatDiv = document.getElementById('chat');
+const input = document.getElementById('input');
+const sendBtn = document.getElementById('send');
+const stopBtn = document.getElementById('stop');
+const workingInd = document.getElementById('working');
+const sessionListEl = document.getElementById('sessionList');
+const healthDot = document.getElementById('healthDot');
+const healthText = document.getElementById('healthText');
+const mentionMenu = document.getElementById('mentionMenu');
+const pendingChips = document.getElementById('pendingChips');
+const contextMeter = document.getElementById('contextMeter');
+const contextFill = document.getElementById('contextFill');
+const contextText = document.getElementById('contextText');
+const modeSelect = document.getElementById('modeSelect');
+const sessionSearch = document.getElementById('sessionSearch');
+
+const streams = {};
+const working = {};
+const approvals = {};
+const usage = {};
+let pendingMentions = [];
+let mentionState = null;
+let mentionSeq = 0;
+let sessions = [];
+let currentId = null;
+let modes = [];
+let defaultMode = 'agent';
+
+// Sessions live in the extension host; chats from older versions are handed over once.
+const legacySessions = JSON.parse(localStorage.getItem('worker_sessions') || 'null');
+vscode.postMessage({ type: 'ready', legacySessions });
+function loadSessions(m) {
+    sessions = m.sessions; modes = m.modes; defaultMode = m.defaultMode;
+    sessions.forEach(s => { usage[s.id] = s.usage; delete s.usage; });
+    m.working.forEach(id => { working[id] = true; });
+    localStorage.removeItem('worker_sessions'); localStorage.removeItem('worker_active_session');
+    if (!sessions.length) createNewSession('Initial Chat');
+    else switchSession(sessions.find(s => s.id === m.activeId) ? m.activeId : sessions[0].id);
+}
+
+function renderModes() {
+    const s = sessions.find(x => x.id === currentId);
+    modeSelect.innerHTML = '';
+    modes.forEach(mode => {
+        const option = document.createElement('option');
+        option.value = mode.id; option.textContent = mode.name; option.title = mode.description;
+        modeSelect.appendChild(option);
+    });
+    modeSelect.value = (s && s.mode) || defaultMode;
+    if (modeSelect.value !== ((s && s.mode) || defaultMode)) modeSelect.value = defaultMode;
+    const current = modes.find(mode => mode.id === modeSelect.value);
+    modeSelect.title = current ? current.description : '';
+}
+modeSelect.onchange = () => {
+    const s = sessions.find(x => x.id === currentId);
+    if (!s) return;
+    s.mode = modeSelect.value; renderModes();
+    vscode.postMessage({ type: 'setSessionMode', sessionId: s.id, mode: s.mode });
+};
+function showUsage() {
+    const u = usage[currentId];
+    const percent = u ? Math.min(100, Math.round(u.used / u.max * 100)) : 0;
+    contextFill.style.width = percent + '%';
+    contextFill.style.background = percent >= 90 ? 'var(--error-color)' : percent >= 70 ? 'var(--warning-color)' : 'var(--accent-color)';
+    contextText.textContent = percent + '%';
+    contextMeter.title = u ? 'Context: ~' + u.used + ' of ' + u.max + ' tokens' : 'Context: empty';
+}
+function checkHealth() { vscode.postMessage({ type: 'checkHealth' }); }
+function setHealth(online, provider) {
+    const color = online ? 'var(--online-color)' : 'var(--offline-color)';
+    healthDot.style.background = color;
+    healthText.textContent = online ? 'System Online' : 'System Offline';
+    healthText.style.color = color;
+    document.getElementById('healthBox').title = provider || '';
+}
+setInterval(checkHealth, 30000); checkHealth();
+
+function createNewSession(name) {
+    const id = 'sess_' + Date.now();
+    sessions.unshift({ id, name, mode: defaultMode, messages: [] });
+    vscode.postMessage({ type: 'createSession', sessionId: id, name });
+    switchSession(id);
+}
+function switchSession(id) {
+    currentId = id; vscode.postMessage({ type: 'setActiveSession', sessionId: id });
+    showWorking(!!working[id]);
+    showUsage(); renderSessions(); renderModes(); loadChat(id);
+}
+function renderSessions() {
+    sessionListEl.innerHTML = '';
+    const query = sessionSearch.value.trim().toLowerCase();
+    const shown = sessions.filter(s => matchesSearch(s, query));
+    shown.forEach(s => {
+        const li = document.createElement('li');
+        li.className = 'session-item ' + (s.id === currentId ? 'active' : '');
+        const name = document.createElement('span');
+        name.className = 's-name'; name.textContent = s.name;
+        const actions = document.createElement('div');
+        [['⤓', 'Export', exportChat], ['✎', 'Rename', renameChat], ['×', 'Delete', deleteChat]].forEach(([icon, title, action]) => {
+            const btn = document.createElement('span');
+            btn.className = 'action-btn'; btn.title = title; btn.textContent = icon;
+            btn.onclick = e => action(s.id, e);
+            actions.appendChild(btn);
+        });
+        li.append(name, actions);
+        li.onclick = () => switchSession(s.id);
+        sessionListEl.appendChild(li);
+    });
+    if (!shown.length && query) {
+        const li = document.createElement('li');
+        li.className = 'session-empty'; li.textContent = 'No chats match "' + sessionSearch.value.trim() + '"';
+        sessionListEl.appendChild(li);
+    }
+}
+// Matches the chat name, messages and tool calls with their results.
+function matchesSearch(s, query) {
+    if (!query || s.name.toLowerCase().indexOf(query) !== -1) return true;
+    return s.messages.some(m => {
+        const text = m.type === 'tool' ? [m.data.code, m.data.label, m.data.path, m.data.result].join(' ') : m.text;
+        return String(text || '').toLowerCase().indexOf(query) !== -1;
+    });
+}
+sessionSearch.oninput = renderSessions;
+function exportChat(id, e) {
+    e.stopPropagation();
+    vscode.postMessage({ type: 'exportSession', sessionId: id });
+}
+function deleteChat(id, e) {
+    e.stopPropagation(); sessions = sessions.filter(s => s.id !== id);
+    vscode.postMessage({ type: 'deleteSession', sessionId: id });
+    delete working[id]; finishStream(id);
+    Object.keys(approvals).forEach(k => { if (approvals[k].sessionId === id) delete approvals[k]; });
+    if (!sessions.length) createNewSession('New Chat');
+    else if (currentId === id) switchSession(sessions[0].id);
+    renderSessions();
+}
+function renameChat(id, e) {
+    e.stopPropagation();
+    const s = sessions.find(x => x.id === id);
+    const newName = prompt('New name:', s.name);
+    if (newName) { s.name = newName; vscode.postMessage({ type: 'renameSession', sessionId: id, name: newName }); renderSessions(); }
+}
+function loadChat(id) {
+    chatDiv.innerHTML = ''; const s = sessions.find(x => x.id === id);
+    s.messages.forEach(m => {
+        if (m.type === 'tool') addToolCard(m.data);
+        else {
+            appendUI(m.text, m.isUser, true, m.turnId, m.attachments);
+            if (m.checkpoint) addRevertButton(m.turnId);
+        }
+    });
+    Object.keys(approvals).forEach(k => { if (approvals[k].sessionId === id) chatDiv.appendChild(approvals[k].div); });
+    if (streams[id]) chatDiv.appendChild(streams[id].div);
+}
+function appendUI(text, isUser, visible=true, turnId, attachments) {
+    if (!text) return;
+    const div = document.createElement('div');
+    div.className = 'message ' + (isUser ? 'user' : 'ai');
+    if (turnId) div.dataset.turn = turnId;
+    if (isUser) div.textContent = text; else showMarkdown(div, text);
+    if (attachments && attachments.length) {
+        const chips = document.createElement('div'); chips.className = 'chips';
+        renderChips(chips, attachments, false); div.appendChild(chips);
+    }
+    if (visible) { chatDiv.appendChild(div); chatDiv.scrollTop = chatDiv.scrollHeight; }
+    highlightCode(div);
+    if (!isUser) addCodeActions(div);
+}
+const SHELL_LANGUAGES = ['sh', 'bash', 'zsh', 'fish', 'shell', 'shellscript', 'console', 'powershell', 'pwsh', 'ps1', 'cmd', 'bat', 'batch'];
+// A toolbar on each code block of a reply; the extension carries out the actions.
+function addCodeActions(div) {
+    div.querySelectorAll('pre > code').forEach(code => {
+        const pre = code.parentElement;
+        const match = /(?:^|\s)language-([\w+#.-]+)/.exec(code.className);
+        const language = match ? match[1].toLowerCase() : '';
+        const bar = document.createElement('div');
+        bar.className = 'code-actions';
+        if (language) {
+            const tag = document.createElement('span');
+            tag.className = 'code-language'; tag.textContent = language;
+            bar.appendChild(tag);
+        }
+        const actions = [['copy', 'Copy'], ['insert', 'Insert'], ['replace', 'Replace selection'], ['newFile', 'New file']];
+        if (SHELL_LANGUAGES.indexOf(language) !== -1) actions.push(['run', 'Run in terminal']);
+        actions.forEach(([action, label]) => {
+            const btn = document.createElement('button');
+            btn.className = 'code-btn'; btn.textContent = label;
+            btn.onclick = () => {
+                vscode.postMessage({ type: 'codeBlockAction', action, code: code.textContent, language });
+                if (action !== 'copy') return;
+                btn.textContent = 'Copied';
+                setTimeout(() => { btn.textContent = label; }, 1500);
+            };
+            bar.appendChild(btn);
+        });
+        pre.before(bar);
+    });
+}
+function addRevertButton(turnId) {
+    const btn = document.createElement('div');
+    btn.className = 'revert-btn'; btn.dataset.turn = turnId;
+    btn.textContent = '↺ Revert to before this message';
+    btn.onclick = () => vscode.postMessage({ type: 'revertCheckpoint', turnId });
+    const userMsg = chatDiv.querySelector('.message.user[data-turn="' + turnId + '"]');
+    if (userMsg) userMsg.after(btn);
+}
+function showMarkdown(div, text) {
+    const content = document.createElement('div');
+    content.className = 'ai-content'; content.appendChild(renderMarkdown(text));
+    div.replaceChildren(content);
+}
+function appendChunk(m) {
+    let st = streams[m.sessionId];
+    if (!st) {
+        const div = document.createElement('div');
+        div.className = 'message ai';
+        st = streams[m.sessionId] = { div, text: '', pending: false };
+        if (m.sessionId === currentId) chatDiv.appendChild(div);
+    }
+    st.text += m.chunk;
+    if (st.pending) return;
+    st.pending = true;
+    requestAnimationFrame(() => {
+        st.pending = false; showMarkdown(st.div, st.text);
+        if (st.div.isConnected) chatDiv.scrollTop = chatDiv.scrollHeight;
+    });
+}
+function finishStream(sessionId) {
+    const st = streams[sessionId]; delete streams[sessionId];
+    if (st) st.div.remove();
+}
+function addToolCard(data, visible=true) {
+    const previous = data.id ? document.getElementById(data.id) : null;
+    const div = document.createElement('div');
+    div.className = 'tool-card'; div.id = data.id || 'tool_' + Date.now() + Math.random();
+    div.dataset.status = data.status;
+    const icon = (data.code === 'write_file' || data.code === 'replace_lines') ? '🛠️'
+        : (data.code === 'grep_files' || data.code === 'find_symbol' || data.code === 'read_file') ? '🔍' : '⚙️';
+    const label = data.label || data.path || '';
+    const header = document.createElement('div');
+    header.className = 'tool-header';
+    const title = document.createElement('span');
+    title.textContent = icon + ' ' + data.code + (label ? ': ' + label : '');
+    const status = document.createElement('div');
+    status.className = 'tool-status';
+    const dot = document.createElement('span');
+    dot.className = 'status-dot status-' + data.status;
+    status.appendChild(dot); status.appendChild(document.createTextNode(data.status));
+    header.appendChild(title); header.appendChild(status);
+    const details = document.createElement('div');
+    details.className = 'tool-details';
+    const pre = document.createElement('pre'); const code = document.createElement('code');
+    code.textContent = data.result || 'Processing...';
+    pre.appendChild(code); details.appendChild(pre);
+    header.onclick = () => details.classList.toggle('show');
+    div.appendChild(header); div.appendChild(details);
+    if (previous) {
+        if (previous.querySelector('.tool-details.show')) details.classList.add('show');
+        previous.replaceWith(div);
+    } else if (visible) { chatDiv.appendChild(div); chatDiv.scrollTop = chatDiv.scrollHeight; }
+    return div.id;
+}
+function appendToolOutput(m) {
+    const card = document.getElementById(m.id);
+    if (!card || card.dataset.status !== 'running') return;
+    const details = card.querySelector('.tool-details'); const pre = card.querySelector('pre'); const code = card.querySelector('code');
+    if (!card.dataset.streamed) { card.dataset.streamed = '1'; code.textContent = ''; details.classList.add('show'); }
+    code.textContent = (code.textContent + m.chunk).slice(-20000);
+    pre.scrollTop = pre.scrollHeight;
+    chatDiv.scrollTop = chatDiv.scrollHeight;
+}
+function addApprovalCard(m) {
+    const div = document.createElement('div');
+    div.className = 'tool-card approval-card';
+    const header = document.createElement('div');
+    header.className = 'tool-header';
+    header.textContent = '✋ Approve ' + m.code + (m.path ? ': ' + m.path : '') + '?';
+    const details = document.createElement('div');
+    details.className = 'tool-details';
+    const pre = document.createElement('pre'); const code = document.createElement('code');
+    (m.preview || '').split('\n').forEach(line => {
+        const span = document.createElement('span');
+        if (m.kind === 'diff') span.className = line.startsWith('@@') ? 'diff-hunk' : line.startsWith('+') ? 'diff-add' : line.startsWith('-') ? 'diff-del' : '';
+        span.textContent = line + '\n'; code.appendChild(span);
+    });
+    pre.appendChild(code); details.appendChild(pre);
+    const actions = document.createElement('div');
+    actions.className = 'approval-actions';
+    const button = (label, cls, answer) => {
+        const b = document.createElement('button'); b.className = cls; b.textContent = label;
+        b.onclick = () => vscode.postMessage({ type: 'approvalResponse', id: m.id, answer });
+        actions.appendChild(b);
+    };
+    button(m.kind === 'command' ? 'Run' : m.isEdit ? 'Accept' : 'Apply', 'approve-btn', 'accept');
+    if (m.isEdit) button('Accept all', 'approve-btn', 'acceptAll');
+    button('Reject', 'reject-btn', 'reject');
+    div.appendChild(header); div.appendChild(details); div.appendChild(actions);
+    approvals[m.id] = { div, actions, sessionId: m.sessionId };
+    if (m.sessionId === currentId) { chatDiv.appendChild(div); chatDiv.scrollTop = chatDiv.scrollHeight; }
+}
+function resolveApprovalCard(m) {
+    const a = approvals[m.id]; if (!a) return;
+    delete approvals[m.id];
+    a.actions.textContent = m.answer === 'reject' ? '✖ Rejected' : m.answer === 'acceptAll' ? '✔ Accepted all' : '✔ Accepted';
+}
+function renderChips(container, mentions, removable) {
+    container.innerHTML = '';
+    mentions.forEach((m, i) => {
+        const chip = document.createElement('span');
+        chip.className = 'chip' + (m.error ? ' error' : '');
+        chip.textContent = '@' + m.label; chip.title = m.error || m.value || m.label;
+        if (removable) {
+            const x = document.createElement('span'); x.className = 'chip-remove'; x.textContent = '×';
+            x.onclick = () => { mentions.splice(i, 1); renderChips(container, mentions, true); };
+            chip.appendChild(x);
+        }
+        container.appendChild(chip);
+    });
+}
+// Typing @ asks the host for suggestions; picking one turns it into a chip above the input.
+function queryMentions() {
+    const caret = input.selectionStart;
+    const match = /(^|\s)@([^\s@]*)$/.exec(input.value.slice(0, caret));
+    if (!match) { closeMentions(); return; }
+    mentionState = { start: caret - match[2].length - 1, items: mentionState ? mentionState.items : [], index: 0, requestId: ++mentionSeq };
+    vscode.postMessage({ type: 'mentionQuery', query: match[2], requestId: mentionState.requestId });
+}
+function showMentions(m) {
+    if (!mentionState || m.requestId !== mentionState.requestId) return;
+    mentionState.items = m.items; mentionState.index = 0;
+    renderMentionMenu();
+}
+function renderMentionMenu() {
+    mentionMenu.innerHTML = '';
+    if (!mentionState || !mentionState.items.length) { mentionMenu.style.display = 'none'; return; }
+    mentionState.items.forEach((item, i) => {
+        const div = document.createElement('div');
+        div.className = 'mention-item' + (i === mentionState.index ? ' active' : '');
+        const label = document.createElement('span'); label.textContent = '@' + item.label;
+        const detail = document.createElement('span'); detail.className = 'mention-detail'; detail.textContent = item.detail;
+        div.appendChild(label); div.appendChild(detail);
+        div.onmousedown = e => { e.preventDefault(); pickMention(i); };
+        mentionMenu.appendChild(div);
+    });
+    mentionMenu.style.display = 'block';
+    mentionMenu.children[mentionState.index].scrollIntoView({ block: 'nearest' });
+}
+function pickMention(i) {
+    const item = mentionState.items[i];
+    const caret = input.selectionStart;
+    input.value = input.value.slice(0, mentionState.start) + input.value.slice(caret);
+    input.selectionStart = input.selectionEnd = mentionState.start;
+    closeMentions();
+    if (!pendingMentions.some(p => p.kind === item.kind && p.value === item.value)) {
+        pendingMentions.push({ kind: item.kind, label: item.label, value: item.value });
+    }
+    renderChips(pendingChips, pendingMentions, true);
+    input.focus();
+}
+function closeMentions() { mentionState = null; mentionMenu.style.display = 'none'; }
+function mentionKey(e) {
+    if (!mentionState || !mentionState.items.length) return false;
+    const count = mentionState.items.length;
+    if (e.key === 'ArrowDown') mentionState.index = (mentionState.index + 1) % count;
+    else if (e.key === 'ArrowUp') mentionState.index = (mentionState.index + count - 1) % count;
+    else if (e.key === 'Enter' || e.key === 'Tab') { e.preventDefault(); pickMention(mentionState.index); return true; }
+    else if (e.key === 'Escape') closeMentions();
+    else return false;
+    e.preventDefault(); renderMentionMenu(); return true;
+}
+function sendInput() {
+    const text = input.value.trim(); if (!text || working[currentId]) return;
+    const mentions = pendingMentions;
+    input.value = ''; pendingMentions = []; renderChips(pendingChips, pendingMentions, true); closeMentions();
+    sendMessage(text, undefined, mentions);
+}
+function sendMessage(text, title, mentions = []) {
+    const turnId = 'turn_' + Date.now();
+    appendUI(text, true, true, turnId, mentions); const s = sessions.find(x => x.id === currentId);
+    s.messages.push({ text, isUser: true, turnId, attachments: mentions });
+    if (s.name === 'Initial Chat' || s.name === 'New Chat') {
+        s.name = title || text.substring(0,15); renderSessions();
+        vscode.postMessage({ type: 'renameSession', sessionId: currentId, name: s.name });
+    }
+    sendBtn.disabled = true;
+    vscode.postMessage({ type: 'sendMessage', message: text, mentions, sessionId: currentId, turnId });
+}
+function showWorking(on) {
+    workingInd.style.display = on ? 'flex' : 'none';
+    stopBtn.style.display = on ? 'inline-block' : 'none';
+    sendBtn.disabled = on;
+}
+function ask(m) {
+    // Editor commands never wait behind a running turn: they get a chat of their own.
+    if (working[currentId]) createNewSession('New Chat');
+    sendMessage(m.message, m.title);
+}
+sendBtn.onclick = sendInput;
+stopBtn.onclick = () => vscode.postMessage({ type: 'cancel', sessionId: currentId });
+input.onkeydown = e => {
+    if (mentionKey(e)) return;
+    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendInput(); }
+};
+input.oninput = queryMentions;
+input.onblur = closeMentions;
+window.addEventListener('message', e => {
+    const m = e.data; const s = sessions.find(x => x.id === m.sessionId);
+    if (m.type === 'health') setHealth(m.online, m.provider);
+    if (m.type === 'loadSessions') loadSessions(m);
+    if (m.type === 'modes') { modes = m.modes; defaultMode = m.defaultMode; renderModes(); }
+    if (m.type === 'ask') ask(m);
+    if (m.type === 'mentionSuggestions') showMentions(m);
+    if (!s) return;
+    if (m.type === 'status') {
+        working[m.sessionId] = m.working;
+        if (m.sessionId === currentId) showWorking(m.working);
+    }
+    if (m.type === 'receiveMessage') {
+        appendUI(m.message, false, m.sessionId === currentId);
+        s.messages.push({ text: m.message, isUser: false });
+    }
+    if (m.type === 'contextUsage') {
+        usage[m.sessionId] = { used: m.used, max: m.max };
+        if (m.sessionId === currentId) showUsage();
+    }
+    if (m.type === 'attachmentsResolved') {
+        const msg = s.messages.find(x => x.turnId === m.turnId && x.isUser);
+        if (msg) msg.attachments = m.attachments;
+        const bubble = m.sessionId === currentId && chatDiv.querySelector('.message.user[data-turn="' + m.turnId + '"] .chips');
+        if (bubble) renderChips(bubble, m.attachments, false);
+    }
+    if (m.type === 'receiveChunk') appendChunk(m);
+    if (m.type === 'messageDone') {
+        finishStream(m.sessionId);
+        appendUI(m.message, false, m.sessionId === currentId);
+        if (m.message) s.messages.push({ text: m.message, isUser: false });
+    }
+    if (m.type === 'checkpointCreated') {
+        const msg = s.messages.find(x => x.turnId === m.turnId);
+        if (msg) msg.checkpoint = true;
+        if (m.sessionId === currentId) addRevertButton(m.turnId);
+    }
+    if (m.type === 'checkpointReverted') {
+        s.messages.forEach(x => { if (m.turnIds.indexOf(x.turnId) !== -1) delete x.checkpoint; });
+        if (m.sessionId === currentId) m.turnIds.forEach(t => { const b = chatDiv.querySelector('.revert-btn[data-turn="' + t + '"]'); if (b) b.remove(); });
+    }
+    if (m.type === 'approvalRequest') addApprovalCard(m);
+    if (m.type === 'approvalResolved') resolveApprovalCard(m);
+    if (m.type === 'toolCall') {
+        addToolCard(m, m.sessionId === currentId);
+        const index = m.id ? s.messages.findIndex(x => x.type === 'tool' && x.data.id === m.id) : -1;
+        if (index !== -1) s.messages[index] = { type: 'tool', data: m };
+        else s.messages.push({ type: 'tool', data: m });
+    }
+    if (m.type === 'toolOutput') appendToolOutput(m);
+});
+document.getElementById('newChatBtn').onclick = () => createNewSession('New Chat');
@@ -0,0 +1,61 @@
+// Markdown rendering for the chat. Model output is untrusted: marked's HTML is
+// parsed into an inert template and only an allowlist of tags and attributes
+// survives, so a reply can format text but never run script or load content.
+(function () {
+    const ALLOWED_TAGS = {
+        A: ['href', 'title'], B: [], BLOCKQUOTE: [], BR: [], CODE: ['class'], DEL: [], DIV: [], EM: [],
+        H1: [], H2: [], H3: [], H4: [], H5: [], H6: [], HR: [], I: [], IMG: ['src', 'alt', 'title'],
+        INPUT: ['type', 'checked', 'disabled'], LI: [], OL: ['start'], P: [], PRE: [], S: [], SPAN: [],
+        STRONG: [], SUB: [], SUP: [], TABLE: [], TBODY: [], TD: ['align'], TH: ['align'], THEAD: [], TR: [], UL: []
+    };
+    // Dropped with everything inside them rather than unwrapped.
+    const DROPPED_TAGS = ['SCRIPT', 'STYLE', 'IFRAME', 'OBJECT', 'EMBED', 'FORM', 'TEXTAREA', 'SELECT', 'BUTTON', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'MATH'];
+    const SAFE_LINK = /^(https?:|mailto:|#)/i;
+    const SAFE_IMAGE = /^data:image\/(png|gif|jpe?g|webp);/i;
+
+    marked.setOptions({ gfm: true, breaks: false });
+
+    function sanitize(node) {
+        Array.from(node.childNodes).forEach(child => {
+            if (child.nodeType === Node.TEXT_NODE) return;
+            if (child.nodeType !== Node.ELEMENT_NODE) { child.remove(); return; }
+            const tag = child.tagName.toUpperCase();
+            if (DROPPED_TAGS.indexOf(tag) !== -1) { child.remove(); return; }
+            const allowed = ALLOWED_TAGS[tag];
+            if (!allowed) {
+                sanitize(child);
+                child.replaceWith(...Array.from(child.childNodes));
+                return;
+            }
+            Array.from(child.attributes).forEach(attr => {
+                if (allowed.indexOf(attr.name) === -1 || !safeValue(tag, attr.name, attr.value)) child.removeAttribute(attr.name);
+            });
+            if (tag === 'A') child.setAttribute('rel', 'noopener noreferrer');
+            sanitize(child);
+        });
+    }
+
+    function safeValue(tag, name, value) {
+        if (name === 'href') return SAFE_LINK.test(value.trim());
+        if (name === 'src') return SAFE_IMAGE.test(value.trim());
+        if (name === 'class') return /^language-[\w+#.-]+$/.test(value);
+        if (name === 'type') return tag === 'INPUT' && value === 'checkbox';
+        return true;
+    }
+
+    /** The sanitized HTML for `text`, as a fragment to insert into the page. */
+    window.renderMarkdown = function (text) {
+        const template = document.createElement('template');
+        template.innerHTML = marked.parse(text);
+        sanitize(template.content);
+        return template.content;
+    };
+
+    /** Highlights the code blocks under `root`; highlight.js escapes what it renders. */
+    window.highlightCode = function (root) {
+        root.querySelectorAll('pre code').forEach(el => {
+            if (el.dataset.highlighted) return;
+            hljs.highlightElement(el);
+        });
+    };
+})();
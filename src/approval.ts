@@ -0,0 +1,63 @@
+import { ApprovalConfig } from './config';
+
+export type ApprovalDecision = 'approve' | 'ask' | 'deny';
+
+/** The user's answer to an approval card or a proposed-edit diff. */
+export type ApprovalAnswer = 'accept' | 'reject' | 'acceptAll';
+
+export const EDIT_TOOLS = ['replace_lines', 'write_file'];
+
+export const READ_TOOLS = ['read_file', 'list_files', 'grep_files', 'find_symbol'];
+
+/**
+ * Decides whether a tool call may run straight away, needs the user's
+ * confirmation, or is refused outright by the command deny list.
+ */
+export function decideApproval(code: string, content: string, config: ApprovalConfig): ApprovalDecision {
+    if (code === 'run_command') {
+        const segments = splitCommand(content);
+        if (segments.some(segment => matchesAny(segment, config.commandDenyList))) return 'deny';
+        if (
+            segments.length > 0
+            && !UNCHECKABLE_SHELL.test(content)
+            && segments.every(segment => matchesAny(segment, config.commandAllowList))
+        ) return 'approve';
+    }
+    if (config.policy === 'autoApproveAll') return 'approve';
+    if (config.policy === 'autoApproveReads' && READ_TOOLS.indexOf(code) !== -1) return 'approve';
+    return 'ask';
+}
+
+/**
+ * Command substitution, subshells, backgrounding and redirection: an allowed
+ * prefix says nothing about what such a line runs or writes, so the allow
+ * list never approves it.
+ */
+const UNCHECKABLE_SHELL = /\$\(|`|[<>()]|(^|[^&])&(?!&)/;
+
+/**
+ * Splits a shell line on `&&`, `||`, `;`, `|`, `&` and the bounds of
+ * substitutions and subshells, so that chaining an allowed command with
+ * anything else still needs approval and the deny list sees every part.
+ */
+function splitCommand(command: string): string[] {
+    return command.split(/&&|\|\||;|\||&|\n|\$\(|`|\(|\)/).map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Entries match as command prefixes (`npm test` matches `npm test -- --watch`),
+ * or as regular expressions when written as `/pattern/`.
+ */
+function matchesAny(command: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+        if (regex) {
+            try {
+                return new RegExp(regex[1], regex[2]).test(command);
+            } catch (e) {
+                return false;
+            }
+        }
+        return command === pattern || command.startsWith(`${pattern} `);
+    });
+}
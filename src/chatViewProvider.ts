@@ -1,25 +1,290 @@
 import * as vscode from 'vscode';
-import fetch from 'node-fetch';
-import { marked } from 'marked';
+import * as crypto from 'crypto';
 import { TextEncoder, TextDecoder } from 'util';
-import * as cp from 'child_process';
+import { ApprovalAnswer, decideApproval, EDIT_TOOLS } from './approval';
+import { CommandRunner, formatCommandResult } from './commandRunner';
+import {
+    getApprovalConfig,
+    getChatConfig,
+    getCommandConfig,
+    getContextConfig,
+    getPromptConfig,
+    getVerifyConfig,
+    TOKEN_SECRET_KEY
+} from './config';
+import {
+    estimateRequestTokens,
+    shrinkToolOutputs,
+    SUMMARY_PROMPT,
+    summaryCutoff,
+    summaryTranscript,
+    truncateOutput
+} from './contextBudget';
+import { checkDiagnostics, problemsBeforeEdit } from './diagnosticsCheck';
+import { unifiedDiff } from './diff';
+import { ProposedEditProvider } from './proposedEdits';
+import { CheckpointStore, RestoreResult, TurnInfo } from './checkpoints';
+import { CodeBlockActions } from './codeBlocks';
+import { EditorPrompt } from './editorContext';
+import { formatAttachments, Mention, MentionResolver, TerminalOutputTracker } from './mentions';
+import { isMultiRoot, qualifyPath, WorkspaceSandbox } from './sandbox';
+import { parseSessionExport, sessionToJson, sessionToMarkdown } from './sessionExport';
+import { ChatSession, SessionStore } from './sessionStore';
+import { createProvider, ModelProvider } from './providers';
+import { WorkspaceSearch } from './workspaceSearch';
+import { allowedTools, buildSystemPrompt, findMode, getModes, ProjectInstructions, readProjectInstructions } from './systemPrompt';
+import { parseToolCalls, toolDefinitions, toolLabel, visibleText } from './tools';
+
+/** How often streamed command output is forwarded to the webview. */
+const TOOL_OUTPUT_INTERVAL_MS = 150;
+
+interface PendingApproval {
+    sessionId: string;
+    isEdit: boolean;
+    resolve: (answer: ApprovalAnswer) => void;
+}
 
-interface Message {
-    role: string;
-    content: string;
+interface ToolPreview {
+    kind: 'command' | 'diff' | 'text';
+    preview: string;
+    proposed?: { fileUri: vscode.Uri; content: string; isNewFile: boolean };
 }
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'worker-ai-chat.chatView';
     private _view?: vscode.WebviewView;
-    private _sessionHistories: Map<string, Message[]> = new Map();
+    private _provider?: Promise<ModelProvider>;
+    private _activeRequests: Map<string, AbortController> = new Map();
+    private _pendingApprovals: Map<string, PendingApproval> = new Map();
+    private _acceptAllEdits: Set<string> = new Set();
+    private _ready = false;
+    private _queuedPrompts: EditorPrompt[] = [];
+    private readonly _mentions: MentionResolver;
+    private readonly _search: WorkspaceSearch;
+
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _secrets: vscode.SecretStorage,
+        private readonly _proposedEdits: ProposedEditProvider,
+        private readonly _checkpoints: CheckpointStore,
+        private readonly _sandbox: WorkspaceSandbox,
+        private readonly _sessions: SessionStore,
+        private readonly _terminal: TerminalOutputTracker,
+        private readonly _commands: CommandRunner,
+        private readonly _codeBlocks: CodeBlockActions
+    ) {
+        this._mentions = new MentionResolver(_sandbox, _terminal);
+        this._search = new WorkspaceSearch(_sandbox);
+    }
+
+    /**
+     * Opens the chat and sends `prompt` as if the user had typed it. Prompts
+     * arriving before the webview has loaded its sessions are sent once it has.
+     */
+    public async ask(prompt: EditorPrompt) {
+        await vscode.commands.executeCommand(`${ChatViewProvider.viewType}.focus`);
+        if (this._view && this._ready) {
+            this._view.webview.postMessage({ type: 'ask', ...prompt });
+        } else {
+            this._queuedPrompts.push(prompt);
+        }
+    }
+
+    /**
+     * Lets the user pick any recorded checkpoint and revert to before it.
+     */
+    public async pickCheckpoint() {
+        const checkpoints = await this._checkpoints.list();
+        if (!checkpoints.length) {
+            vscode.window.showInformationMessage('Worker AI Chat: no checkpoints recorded yet.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(checkpoints.map(c => ({
+            label: c.label.split('\n')[0].slice(0, 80) || '(empty message)',
+            description: `${new Date(c.timestamp).toLocaleString()} · ${c.files.length} file${c.files.length === 1 ? '' : 's'}`,
+            detail: c.files.map(f => f.path).join(', '),
+            id: c.id
+        })), { placeHolder: 'Revert files to before this message', matchOnDetail: true });
+        if (picked) await this._revertCheckpoint(picked.id);
+    }
+
+    /**
+     * Saves a session as a Markdown transcript or as JSON that can be imported
+     * again. Without an id the user picks the session, the active one first.
+     */
+    public async exportSession(sessionId?: string) {
+        const sessions = await this._sessions.list();
+        let session = sessionId ? this._sessions.get(sessionId) : undefined;
+        if (!session) {
+            if (!sessions.length) {
+                vscode.window.showInformationMessage('Worker AI Chat: there are no chats to export.');
+                return;
+            }
+            const active = this._sessions.activeId;
+            const ordered = sessions.filter(s => s.id === active).concat(sessions.filter(s => s.id !== active));
+            const picked = await vscode.window.showQuickPick(ordered.map(s => ({
+                label: s.name,
+                description: `${new Date(s.updatedAt).toLocaleString()} · ${s.messages.length} message${s.messages.length === 1 ? '' : 's'}`,
+                id: s.id
+            })), { placeHolder: 'Chat to export' });
+            session = picked && this._sessions.get(picked.id);
+            if (!session) return;
+        }
+
+        const format = await vscode.window.showQuickPick([
+            { label: 'Markdown', description: 'Readable transcript with tool calls and results', extension: 'md' },
+            { label: 'JSON', description: 'Complete session that can be imported again', extension: 'json' }
+        ], { placeHolder: `Export "${session.name}" as` });
+        if (!format) return;
+
+        const fileName = `${session.name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'chat'}.${format.extension}`;
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: format.extension === 'md' ? { Markdown: ['md'] } : { JSON: ['json'] }
+        });
+        if (!target) return;
+
+        const content = format.extension === 'md' ? sessionToMarkdown(session) : sessionToJson(session);
+        try {
+            await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        } catch (e) {
+            vscode.window.showErrorMessage(`Worker AI Chat: cannot export "${session.name}": ${e instanceof Error ? e.message : e}.`);
+            return;
+        }
+        const open = await vscode.window.showInformationMessage(`Worker AI Chat: exported "${session.name}".`, 'Open');
+        if (open) await vscode.window.showTextDocument(target);
+    }
+
+    /** Adds a chat from a JSON export as a new session and switches to it. */
+    public async importSession() {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Worker AI Chat session': ['json'] },
+            openLabel: 'Import'
+        });
+        if (!picked?.length) return;
+
+        let imported;
+        try {
+            imported = parseSessionExport(new TextDecoder().decode(await vscode.workspace.fs.readFile(picked[0])));
+        } catch (e) {
+            vscode.window.showErrorMessage(`Worker AI Chat: cannot import this file: ${e instanceof Error ? e.message : e}.`);
+            return;
+        }
+        await this._sessions.list(); // the stored sessions must be loaded before adding one
+        const session = this._sessions.create(`sess_${Date.now()}`, imported.name, imported.messages);
+        session.history = imported.history;
+        if (imported.mode) session.mode = imported.mode;
+        this._sessions.touch(session.id);
+        await this._sessions.setActive(session.id);
+
+        await vscode.commands.executeCommand(`${ChatViewProvider.viewType}.focus`);
+        if (this._view && this._ready) await this._loadSessions(this._view);
+    }
+
+    /**
+     * Undoes a turn and every later turn of its session after confirmation,
+     * and tells the model which files changed under it.
+     */
+    private async _revertCheckpoint(checkpointId: string) {
+        const checkpoint = (await this._checkpoints.list()).find(c => c.id === checkpointId);
+        if (!checkpoint) return;
+        const confirm = await vscode.window.showWarningMessage(
+            'Revert all files changed by the assistant since this message? Later messages in this chat are reverted too.',
+            { modal: true },
+            'Revert'
+        );
+        if (confirm !== 'Revert') return;
+
+        let result: RestoreResult;
+        try {
+            result = await this._checkpoints.restore(checkpointId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Worker AI Chat: could not revert: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        const changed = [
+            ...result.restored.map(path => `restored ${path}`),
+            ...result.deleted.map(path => `deleted ${path}`)
+        ];
+        if (result.failed.length) {
+            vscode.window.showErrorMessage(
+                `Worker AI Chat: could not restore ${result.failed.join(', ')}.`
+                + (changed.length ? ` Already ${changed.join(', ')}.` : '')
+                + ' The checkpoint is kept, so you can try reverting again.'
+            );
+            return;
+        }
+        const session = this._sessions.get(checkpoint.sessionId);
+        if (session) {
+            session.history.push({
+                role: 'system',
+                content: `The user reverted the workspace to its state before the message "${checkpoint.label}": ${changed.join(', ')}.`
+            });
+            session.messages.forEach(m => {
+                if ('turnId' in m && m.turnId && result.checkpointIds.indexOf(m.turnId) !== -1) delete m.checkpoint;
+            });
+            this._sessions.touch(session.id);
+        }
+        this._view?.webview.postMessage({
+            type: 'checkpointReverted',
+            turnIds: result.checkpointIds,
+            sessionId: checkpoint.sessionId
+        });
+        vscode.window.showInformationMessage(`Worker AI Chat: reverted ${changed.length} file${changed.length === 1 ? '' : 's'}.`);
+    }
 
-    private readonly _ignorePatterns = [
-        'node_modules', 'vendor', '.git', 'dist', 'build', 'out',
-        'target', 'bin', 'obj', 'lib', '.idea', '.vscode', '.env'
-    ];
+    /**
+     * Answers the proposed edit shown in a diff editor, for the editor title
+     * actions. Falls back to the active editor when no URI is passed.
+     */
+    public resolveEdit(uri: vscode.Uri | undefined, answer: ApprovalAnswer) {
+        const id = this._proposedEdits.idFor(uri ?? vscode.window.activeTextEditor?.document.uri);
+        if (id) this._answerApproval(id, answer);
+    }
+
+    /**
+     * Drops the cached provider so the next request picks up changed settings
+     * or credentials, and refreshes the health indicator.
+     */
+    public refreshProvider() {
+        this._provider = undefined;
+        this._postHealth();
+    }
 
-    constructor(private readonly _extensionUri: vscode.Uri) { }
+    /** Sends the modes to the webview again after the settings changed. */
+    public refreshModes() {
+        this._view?.webview.postMessage({ type: 'modes', ...this._modeList() });
+    }
+
+    private _getProvider(): Promise<ModelProvider> {
+        if (!this._provider) {
+            const provider = Promise.resolve(this._secrets.get(TOKEN_SECRET_KEY))
+                .then(token => createProvider({ ...getChatConfig(), token }));
+            this._provider = provider;
+            // A failure, such as a missing keyring, is not cached: the next request tries again.
+            provider.catch(() => {
+                if (this._provider === provider) this._provider = undefined;
+            });
+        }
+        return this._provider;
+    }
+
+    private async _postHealth() {
+        if (!this._view) return;
+        try {
+            const provider = await this._getProvider();
+            const online = await provider.checkHealth();
+            this._view.webview.postMessage({ type: 'health', online, provider: provider.name });
+        } catch (error) {
+            this._view.webview.postMessage({
+                type: 'health',
+                online: false,
+                provider: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
 
     resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -27,162 +292,537 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         _token: vscode.CancellationToken,
     ) {
         this._view = webviewView;
+        this._ready = false;
 
         webviewView.webview.options = {
             enableScripts: true,
-            localResourceRoots: [this._extensionUri]
+            localResourceRoots: [vscode.Uri.joinPath(this._extensionUri, 'media')]
         };
 
-        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+        this._getHtmlForWebview(webviewView.webview).then(
+            html => webviewView.webview.html = html,
+            error => vscode.window.showErrorMessage(`Worker AI Chat could not load its view: ${error instanceof Error ? error.message : error}`)
+        );
 
         webviewView.webview.onDidReceiveMessage(async data => {
             if (data.type === 'sendMessage') {
                 try {
-                    await this._handleMessage(data.message, data.sessionId, webviewView);
+                    await this._handleMessage(data.message, data.mentions || [], data.sessionId, data.turnId, webviewView);
                 } catch (error) {
-                    webviewView.webview.postMessage({
+                    this._postDisplay(webviewView, {
                         type: 'receiveMessage',
-                        message: `**Error:** ${error}`,
+                        message: `**Error:** ${error instanceof Error ? error.message : error}`,
                         isUser: false,
                         sessionId: data.sessionId
                     });
                 }
+            } else if (data.type === 'mentionQuery') {
+                const items = await this._mentions.suggest(data.query);
+                webviewView.webview.postMessage({ type: 'mentionSuggestions', requestId: data.requestId, items });
+            } else if (data.type === 'ready') {
+                await this._loadSessions(webviewView, data.legacySessions);
+            } else if (data.type === 'createSession') {
+                await this._sessions.ensure(data.sessionId, data.name);
+                await this._sessions.setActive(data.sessionId);
+            } else if (data.type === 'renameSession') {
+                this._sessions.rename(data.sessionId, data.name);
+            } else if (data.type === 'setActiveSession') {
+                await this._sessions.setActive(data.sessionId);
+            } else if (data.type === 'setSessionMode') {
+                const session = await this._sessions.ensure(data.sessionId);
+                this._sessions.setMode(data.sessionId, findMode(data.mode).id);
+                this._postContextUsage(webviewView, session, await this._systemPrompt(session));
             } else if (data.type === 'clearSession') {
-                this._sessionHistories.set(data.sessionId, []);
+                this._sessions.clear(data.sessionId);
             } else if (data.type === 'deleteSession') {
-                this._sessionHistories.delete(data.sessionId);
+                this._activeRequests.get(data.sessionId)?.abort();
+                await this._sessions.delete(data.sessionId);
+                await this._checkpoints.deleteSession(data.sessionId);
+            } else if (data.type === 'revertCheckpoint') {
+                await this._revertCheckpoint(data.turnId);
+            } else if (data.type === 'cancel') {
+                this._activeRequests.get(data.sessionId)?.abort();
+            } else if (data.type === 'approvalResponse') {
+                this._answerApproval(data.id, data.answer);
+            } else if (data.type === 'exportSession') {
+                await this.exportSession(data.sessionId);
+            } else if (data.type === 'codeBlockAction') {
+                await this._codeBlocks.run(data.action, String(data.code), data.language);
+            } else if (data.type === 'checkHealth') {
+                await this._postHealth();
             }
         });
     }
 
-    private async _handleMessage(userMessage: string, sessionId: string, webviewView: vscode.WebviewView) {
-        const workerUrl = 'XXXXXXXXXXXXXXXXXXXXX';
-
-        if (!this._sessionHistories.has(sessionId)) {
-            this._sessionHistories.set(sessionId, []);
+    private async _handleMessage(
+        userMessage: string,
+        mentions: Mention[],
+        sessionId: string,
+        turnId: string | undefined,
+        webviewView: vscode.WebviewView
+    ) {
+        const provider = await this._getProvider();
+
+        const session = await this._sessions.ensure(sessionId);
+        const history = session.history;
+        const turn: TurnInfo = { id: turnId || `turn_${Date.now()}`, sessionId, label: userMessage };
+        const attachments = await this._mentions.resolve(mentions);
+        const chips: Mention[] = attachments.map(({ kind, label, value, error }) => ({ kind, label, value, error }));
+        history.push({
+            role: 'user',
+            content: attachments.length ? `${userMessage}\n\n${formatAttachments(attachments)}` : userMessage
+        });
+        session.messages.push({ text: userMessage, isUser: true, turnId: turn.id, attachments: chips.length ? chips : undefined });
+        this._sessions.touch(sessionId);
+        if (chips.length) {
+            webviewView.webview.postMessage({ type: 'attachmentsResolved', sessionId, turnId: turn.id, attachments: chips });
         }
-        const history = this._sessionHistories.get(sessionId)!;
-        history.push({ role: 'User', content: userMessage });
-
-        const systemPrompt = `
-[SYSTEM OVERRIDE: ELITE ARCHITECT MODE]
-You are an Elite Full-Stack AI Engineer connected to a VS Code Extension.
-Operating Workflow: **READ-WRITE-VERIFY**.
-
-### 🛠️ CORE PROTOCOLS
-1. **READ**: Analyze structure/code before edits.
-2. **WRITE**: Use <tool code="replace_lines"> for existing files; <tool code="write_file"> ONLY for new ones.
-3. **VERIFY**: AFTER every write, you MUST run a validation command (e.g., "npm test", "tsc", "ls").
-4. **FIX**: If verification fails, immediately fix the error using the output.
-
-### 🧰 TOOLING (XML ONLY)
-<tool code="replace_lines" path="file.ext">
-<search>Exact lines</search>
-<replace>New lines</replace>
-</tool>
-
-<tool code="write_file" path="file.ext">CONTENT</tool>
-<tool code="read_file" path="file.ext"></tool>
-<tool code="list_files"></tool>
-<tool code="run_command">COMMAND</tool>
-<tool code="restore_file" path="file.ext">Restores latest backup.</tool>
-
-### 🛡️ SAFETY
-- Backups are automatic.
-- Exclude node_modules, .git, vendor, etc.
-
-Proceed with precision. Execute the next step in the loop.
-`;
+
+        const mode = findMode(session.mode);
+        const tools = allowedTools(mode);
+        const systemPrompt = await this._systemPrompt(session);
 
         let loopCount = 0;
         const maxLoops = 10;
 
+        this._activeRequests.get(sessionId)?.abort();
+        const controller = new AbortController();
+        const { signal } = controller;
+        this._activeRequests.set(sessionId, controller);
+
         webviewView.webview.postMessage({ type: 'status', working: true, sessionId });
 
         try {
-            while (loopCount < maxLoops) {
+            while (loopCount < maxLoops && !signal.aborted) {
                 loopCount++;
 
-                const historyString = history
-                    .map(msg => `${msg.role}: ${msg.content}`)
-                    .join('\n\n');
+                let streamed = '';
+                let shown = '';
+                const onChunk = (chunk: string) => {
+                    streamed += chunk;
+                    const visible = visibleText(streamed);
+                    if (visible.length > shown.length) {
+                        webviewView.webview.postMessage({
+                            type: 'receiveChunk',
+                            chunk: visible.slice(shown.length),
+                            sessionId
+                        });
+                        shown = visible;
+                    }
+                };
 
-                const fullMessage = `${systemPrompt}\n\n${historyString}\n\nAssistant:`;
+                await this._fitContext(provider, systemPrompt, session, signal, webviewView);
 
-                const response = await fetch(`${workerUrl}?q=${encodeURIComponent(fullMessage)}`);
-                if (!response.ok) throw new Error(`API ${response.status}`);
-                const answer = await response.text();
+                let answer: string;
+                try {
+                    answer = await provider.complete({ systemPrompt, messages: history, tools: tools.length ? toolDefinitions(tools) : undefined, signal }, onChunk);
+                } catch (err) {
+                    if (!signal.aborted) throw err;
+                    answer = streamed;
+                }
 
-                history.push({ role: 'Assistant', content: answer });
+                if (answer) history.push({ role: 'assistant', content: answer });
 
-                const toolRegex = /<tool code="([^"]+)"(?: path="([^"]+)")?>([\s\S]*?)<\/tool>/g;
-                let match;
-                let hasToolCalls = false;
+                const { calls, text } = parseToolCalls(answer);
 
-                webviewView.webview.postMessage({
-                    type: 'receiveMessage',
-                    message: answer.replace(toolRegex, '').trim(),
-                    isUser: false,
+                this._postDisplay(webviewView, {
+                    type: 'messageDone',
+                    message: text.trim(),
                     sessionId: sessionId
                 });
 
-                while ((match = toolRegex.exec(answer)) !== null) {
-                    hasToolCalls = true;
-                    const [fullTool, code, path, content] = match;
+                if (signal.aborted) break;
+
+                for (const call of calls) {
+                    if (signal.aborted) break;
+                    const { code, path, content } = call;
+                    const label = toolLabel(code, content, call.attributes);
+                    const id = `tool_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+                    const unavailable = !call.error && tools.indexOf(code) === -1
+                        ? tools.length
+                            ? `${code} is not available in ${mode.name} mode. Available tools: ${tools.join(', ')}.`
+                            : `No tools are available in ${mode.name} mode; answer without them.`
+                        : undefined;
+                    if (call.error || unavailable) {
+                        history.push({
+                            role: 'system',
+                            content: call.error
+                                ? `${call.error} The call was not executed; correct it and try again.`
+                                : `${unavailable} The call was not executed.`
+                        });
+                        this._postDisplay(webviewView, {
+                            type: 'toolCall',
+                            id, code: code || 'tool', path, label, status: 'error',
+                            result: call.error || unavailable,
+                            sessionId
+                        });
+                        continue;
+                    }
 
-                    webviewView.webview.postMessage({
+                    this._postDisplay(webviewView, {
                         type: 'toolCall',
-                        code, path, status: 'running',
+                        id, code, path, label, status: 'running',
                         sessionId
                     });
 
                     let result = '';
                     try {
+                        const isEdit = EDIT_TOOLS.indexOf(code) !== -1;
+                        const decision = isEdit && this._acceptAllEdits.has(sessionId)
+                            ? 'approve'
+                            : decideApproval(code, content, getApprovalConfig());
+                        const answer: ApprovalAnswer = decision === 'ask'
+                            ? await this._requestApproval(code, path, content, sessionId, webviewView, signal)
+                            : decision === 'approve' ? 'accept' : 'reject';
+                        if (answer === 'reject') {
+                            const reason = decision === 'deny'
+                                ? 'is blocked by the command deny list'
+                                : 'was rejected by the user';
+                            history.push({
+                                role: 'system',
+                                content: `Tool call ${code}${path ? ` on "${path}"` : ''} ${reason} and was not executed. Adjust your approach.`
+                            });
+                            this._postDisplay(webviewView, {
+                                type: 'toolCall',
+                                id, code, path, label, status: 'rejected',
+                                result: `Not executed: ${reason}.`,
+                                sessionId
+                            });
+                            continue;
+                        }
+
                         if (code === 'replace_lines') {
-                            result = await this._replaceLines(path || '', content);
+                            result = await this._replaceLines(path || '', content, turn, signal);
                         } else if (code === 'write_file') {
-                            result = await this._writeFile(path || '', content);
+                            result = await this._writeFile(path || '', content, turn, signal);
                         } else if (code === 'read_file') {
-                            result = await this._readFile(path || '');
+                            result = await this._readFile(path || '', call.attributes.start_line, call.attributes.end_line);
                         } else if (code === 'list_files') {
                             result = await this._listFiles();
+                        } else if (code === 'grep_files') {
+                            result = await this._search.grep(content.trim(), call.attributes, signal);
+                        } else if (code === 'find_symbol') {
+                            result = await this._search.findSymbol(content.trim(), call.attributes);
                         } else if (code === 'run_command') {
-                            result = await this._runCommand(content.trim());
+                            result = await this._runCommand(content.trim(), path, signal, this._toolOutputSink(webviewView, sessionId, id));
+                            this._terminal.record(content.trim(), result);
                         } else if (code === 'restore_file') {
-                            result = await this._restoreFile(path || '');
+                            result = await this._restoreFile(path || '', turn);
                         }
 
-                        history.push({ role: 'System', content: `Tool Output (${code}):\n${result}` });
+                        if (decision === 'ask' && isEdit) {
+                            result = `User accepted the proposed edit after reviewing the diff. ${result}`;
+                        }
 
-                        webviewView.webview.postMessage({
+                        history.push({
+                            role: 'tool',
+                            content: `Tool Output (${code}):\n${truncateOutput(result, getContextConfig().maxToolOutputTokens)}`
+                        });
+
+                        this._postDisplay(webviewView, {
                             type: 'toolCall',
-                            code, path, status: 'success',
+                            id, code, path, label, status: 'success',
                             result: result,
                             sessionId
                         });
 
                     } catch (err: any) {
-                        history.push({ role: 'System', content: `Error (${code}): ${err.message}` });
-                        webviewView.webview.postMessage({
+                        history.push({ role: 'tool', content: `Error (${code}): ${err.message}` });
+                        this._postDisplay(webviewView, {
                             type: 'toolCall',
-                            code, path, status: 'error',
+                            id, code, path, label, status: 'error',
                             result: err.message,
                             sessionId
                         });
                     }
                 }
 
-                if (!hasToolCalls) break;
+                if (!calls.length) break;
+            }
+
+            if (signal.aborted && this._sessions.get(sessionId) === session) {
+                history.push({ role: 'system', content: 'Cancelled by user.' });
+                this._postDisplay(webviewView, {
+                    type: 'receiveMessage',
+                    message: '_Cancelled by user._',
+                    isUser: false,
+                    sessionId
+                });
             }
         } finally {
+            if (this._activeRequests.get(sessionId) === controller) {
+                this._activeRequests.delete(sessionId);
+                this._acceptAllEdits.delete(sessionId);
+            }
+            this._sessions.touch(sessionId);
+            this._postContextUsage(webviewView, session, systemPrompt);
             webviewView.webview.postMessage({ type: 'status', working: false, sessionId });
         }
     }
 
-    private async _replaceLines(relativePath: string, content: string): Promise<string> {
-        if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const rootUri = vscode.workspace.workspaceFolders[0].uri;
-        const fileUri = vscode.Uri.joinPath(rootUri, relativePath);
+    /**
+     * Keeps the request within `worker-ai-chat.context.maxTokens`. Once the
+     * history outgrows it, the turns before the most recent ones are replaced
+     * by a model-written summary, or dropped when summarizing is off or fails;
+     * if the turn in progress is still too big its oldest tool outputs shrink.
+     */
+    private async _fitContext(
+        provider: ModelProvider,
+        systemPrompt: string,
+        session: ChatSession,
+        signal: AbortSignal,
+        webviewView: vscode.WebviewView
+    ) {
+        const config = getContextConfig();
+        const history = session.history;
+        const cutoff = summaryCutoff(systemPrompt, history, config.maxTokens);
+        if (cutoff > 0) {
+            const older = history.slice(0, cutoff);
+            let summary = '';
+            if (config.summarize) {
+                try {
+                    summary = (await provider.complete({
+                        systemPrompt: SUMMARY_PROMPT,
+                        messages: [{ role: 'user', content: summaryTranscript(older, config.maxTokens / 2) }],
+                        signal
+                    })).trim();
+                } catch (e) {
+                    // Without a summary the older turns are simply dropped.
+                }
+                if (signal.aborted) return;
+            }
+            history.splice(0, cutoff, summary
+                ? { role: 'system', content: `Summary of the earlier conversation:\n${summary}` }
+                : { role: 'system', content: `${older.length} earlier messages were removed to fit the context window.` });
+            this._postDisplay(webviewView, {
+                type: 'receiveMessage',
+                message: summary
+                    ? '_Earlier messages were summarized to fit the context window._'
+                    : '_Earlier messages were removed to fit the context window._',
+                isUser: false,
+                sessionId: session.id
+            });
+        }
+        shrinkToolOutputs(systemPrompt, history, config.maxTokens);
+        this._postContextUsage(webviewView, session, systemPrompt);
+    }
+
+    /** The modes offered in the sidebar and the one new chats start in. */
+    private _modeList() {
+        return {
+            modes: getModes().map(({ id, name, description }) => ({ id, name, description })),
+            defaultMode: findMode(getPromptConfig().defaultMode).id
+        };
+    }
+
+    private _postContextUsage(webviewView: vscode.WebviewView, session: ChatSession, systemPrompt: string) {
+        webviewView.webview.postMessage({
+            type: 'contextUsage',
+            sessionId: session.id,
+            used: estimateRequestTokens(systemPrompt, session.history),
+            max: getContextConfig().maxTokens
+        });
+    }
+
+    /**
+     * Posts a message the webview renders into the chat and records it in the
+     * session, so the chat looks the same after a window reload. Tool cards are
+     * updated in place by posting the call again with the same `id`.
+     */
+    private _postDisplay(webviewView: vscode.WebviewView, message: any) {
+        const session = this._sessions.get(message.sessionId);
+        if (session) {
+            if (message.type === 'toolCall') {
+                // A finished call replaces its "running" card.
+                const index = session.messages.findIndex(m => 'type' in m && m.data.id === message.id);
+                if (index !== -1) session.messages[index] = { type: 'tool', data: message };
+                else session.messages.push({ type: 'tool', data: message });
+            } else if (message.message) {
+                session.messages.push({ text: message.message, isUser: false });
+            }
+            this._sessions.touch(session.id);
+        }
+        webviewView.webview.postMessage(message);
+    }
+
+    /**
+     * Sends the stored sessions to a freshly loaded webview. Chats kept in the
+     * webview's localStorage by older versions are imported once, without
+     * model history since that was never saved.
+     */
+    private async _loadSessions(webviewView: vscode.WebviewView, legacySessions?: any[]) {
+        let sessions = await this._sessions.list();
+        if (!sessions.length && Array.isArray(legacySessions)) {
+            legacySessions.slice().reverse().forEach(legacy => {
+                if (!legacy || typeof legacy.id !== 'string') return;
+                const messages = Array.isArray(legacy.messages) ? legacy.messages : [];
+                this._sessions.create(legacy.id, String(legacy.name || 'Imported Chat'), messages);
+            });
+            sessions = await this._sessions.list();
+        }
+        const instructions = await readProjectInstructions();
+        const maxTokens = getContextConfig().maxTokens;
+        const usage = await Promise.all(sessions.map(async s => ({
+            used: estimateRequestTokens(await this._systemPrompt(s, instructions), s.history),
+            max: maxTokens
+        })));
+        webviewView.webview.postMessage({
+            type: 'loadSessions',
+            activeId: this._sessions.activeId,
+            sessions: sessions.map((s, i) => ({
+                id: s.id,
+                name: s.name,
+                mode: findMode(s.mode).id,
+                messages: s.messages,
+                usage: usage[i]
+            })),
+            ...this._modeList(),
+            working: Array.from(this._activeRequests.keys())
+        });
+        this._ready = true;
+        this._queuedPrompts.splice(0).forEach(prompt => webviewView.webview.postMessage({ type: 'ask', ...prompt }));
+    }
+
+    /**
+     * Shows an approval card with the exact command or a diff of the edit and
+     * waits for the user's answer. Edits are also opened in VS Code's diff
+     * editor, where they can be answered from the title bar. Cancelling the
+     * session counts as a rejection.
+     */
+    private async _requestApproval(
+        code: string,
+        path: string | undefined,
+        content: string,
+        sessionId: string,
+        webviewView: vscode.WebviewView,
+        signal: AbortSignal
+    ): Promise<ApprovalAnswer> {
+        const { proposed, ...preview } = await this._previewToolCall(code, path || '', content);
+        const id = `approval_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+        const answer = await new Promise<ApprovalAnswer>(resolve => {
+            const onAbort = () => finish('reject');
+            const finish = (value: ApprovalAnswer) => {
+                this._pendingApprovals.delete(id);
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            };
+            this._pendingApprovals.set(id, { sessionId, isEdit: !!proposed, resolve: finish });
+            signal.addEventListener('abort', onAbort);
+            webviewView.webview.postMessage({ type: 'approvalRequest', id, code, path, ...preview, isEdit: !!proposed, sessionId });
+            if (proposed) {
+                this._proposedEdits.show(id, proposed.fileUri, path || '', proposed.content, proposed.isNewFile)
+                    .then(undefined, () => { /* the card still works without the diff editor */ });
+            }
+        });
+
+        await this._proposedEdits.discard(id);
+        webviewView.webview.postMessage({ type: 'approvalResolved', id, answer, sessionId });
+        return answer;
+    }
+
+    /**
+     * Resolves a pending approval. "Accept all" also accepts the other edits
+     * waiting in the same session and the rest of its edits for this request.
+     */
+    private _answerApproval(id: string, answer: ApprovalAnswer) {
+        const pending = this._pendingApprovals.get(id);
+        if (!pending) return;
+        if (answer === 'acceptAll') {
+            this._acceptAllEdits.add(pending.sessionId);
+            this._pendingApprovals.forEach((other, otherId) => {
+                if (otherId !== id && other.isEdit && other.sessionId === pending.sessionId) other.resolve('accept');
+            });
+        }
+        pending.resolve(answer);
+    }
+
+    private async _previewToolCall(code: string, relativePath: string, content: string): Promise<ToolPreview> {
+        if (code === 'run_command') {
+            return { kind: 'command', preview: content.trim() };
+        }
+        if (code === 'replace_lines') {
+            const { fileUri, original, updated } = await this._computeReplacement(relativePath, content);
+            return {
+                kind: 'diff',
+                preview: unifiedDiff(original, updated),
+                proposed: { fileUri, content: updated, isNewFile: false }
+            };
+        }
+        if (code === 'write_file') {
+            const { uri: fileUri } = await this._sandbox.resolve(relativePath);
+            const proposed = { fileUri, content, isNewFile: false };
+            try {
+                const original = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+                return { kind: 'diff', preview: unifiedDiff(original, content) || 'No changes.', proposed };
+            } catch (e) {
+                return {
+                    kind: 'diff',
+                    preview: content.split(/\r?\n/).map(line => `+${line}`).join('\n'),
+                    proposed: { ...proposed, isNewFile: true }
+                };
+            }
+        }
+        if (code === 'restore_file') {
+            return { kind: 'text', preview: `Restore "${relativePath}" from its latest backup.` };
+        }
+        return { kind: 'text', preview: content.trim() };
+    }
+
+    /** The system prompt for a session, in the session's mode. */
+    private async _systemPrompt(session: ChatSession, instructions?: ProjectInstructions[]): Promise<string> {
+        return buildSystemPrompt(findMode(session.mode), this._workspacePrompt(), instructions || await readProjectInstructions());
+    }
+
+    /**
+     * Tells the model which workspace folders exist and how to address them.
+     */
+    private _workspacePrompt(): string {
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (!folders.length) return '- No folder is open; file tools and commands are unavailable.';
+        if (!isMultiRoot()) return `- Folder "${folders[0].name}". Paths are relative to its root.`;
+        return [
+            `- Multi-root workspace. Start every path with its folder name (e.g. "${folders[0].name}/src/index.ts").`,
+            ...folders.map(folder => `- Folder "${folder.name}"`),
+            '- Commands run in the first folder unless run_command is given a path.'
+        ].join('\n');
+    }
+
+    private async _replaceLines(inputPath: string, content: string, turn: TurnInfo, signal: AbortSignal): Promise<string> {
+        const { fileUri, relativePath, updated } = await this._computeReplacement(inputPath, content);
+
+        const problems = await this._problemsBeforeEdit(fileUri, signal);
+        await this._snapshot(turn, fileUri, relativePath);
+        await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(updated));
+
+        return this._withDiagnostics(`Successfully updated ${relativePath}`, fileUri, relativePath, problems, signal);
+    }
+
+    /** Takes the baseline once the language servers have analyzed the file. */
+    private async _problemsBeforeEdit(fileUri: vscode.Uri, signal: AbortSignal): Promise<vscode.Diagnostic[]> {
+        return getVerifyConfig().diagnostics ? problemsBeforeEdit(fileUri, signal) : [];
+    }
+
+    /**
+     * Adds the problems an edit introduced to its result when
+     * `worker-ai-chat.verify.diagnostics` is on, so the model sees them
+     * without having to guess a build command.
+     */
+    private async _withDiagnostics(
+        result: string,
+        fileUri: vscode.Uri,
+        relativePath: string,
+        before: vscode.Diagnostic[],
+        signal: AbortSignal
+    ): Promise<string> {
+        if (!getVerifyConfig().diagnostics) return result;
+        const report = await checkDiagnostics(fileUri, relativePath, before, signal);
+        return report ? `${result}\n${report}` : result;
+    }
+
+    private async _computeReplacement(inputPath: string, content: string) {
+        const { uri: fileUri, displayPath: relativePath } = await this._sandbox.resolve(inputPath);
 
         const searchMatch = content.match(/<search>([\s\S]*?)<\/search>/);
         const replaceMatch = content.match(/<replace>([\s\S]*?)<\/replace>/);
@@ -199,317 +839,143 @@ Proceed with precision. Execute the next step in the loop.
             throw new Error(`Search string not found in "${relativePath}".`);
         }
 
-        await this._createBackup(relativePath, fileUri, rootUri);
-        const updated = original.replace(search, replace);
-        await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(updated));
-
-        return `Successfully updated ${relativePath}`;
+        return { fileUri, relativePath, original, updated: original.replace(search, replace) };
     }
 
-    private async _restoreFile(relativePath: string): Promise<string> {
-        if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const rootUri = vscode.workspace.workspaceFolders[0].uri;
-        const fileUri = vscode.Uri.joinPath(rootUri, relativePath);
-
-        const files = await vscode.workspace.fs.readDirectory(rootUri);
-        const baks = files
-            .filter(([name, type]) => name.startsWith(relativePath + '.bak.'))
-            .sort((a, b) => b[0].localeCompare(a[0]));
+    private async _restoreFile(inputPath: string, turn: TurnInfo): Promise<string> {
+        const { uri: fileUri, displayPath: relativePath } = await this._sandbox.resolve(inputPath);
 
-        if (baks.length === 0) throw new Error(`No backups found for "${relativePath}"`);
+        const checkpoints = (await this._checkpoints.list()).filter(c => c.files.some(f => f.uri === fileUri.toString()));
+        if (!checkpoints.length) {
+            throw new Error(`No backups found for "${relativePath}"`);
+        }
 
-        const latestBak = baks[0][0];
-        const bakUri = vscode.Uri.joinPath(rootUri, latestBak);
-        await vscode.workspace.fs.copy(bakUri, fileUri, { overwrite: true });
-        return `Restored "${relativePath}" from backup.`;
+        // The snapshot below records the file as it is now; that is no backup to restore from.
+        const recordedThisTurn = checkpoints.some(c => c.id === turn.id);
+        await this._snapshot(turn, fileUri, relativePath);
+        const outcome = await this._checkpoints.restoreLatest(fileUri, recordedThisTurn ? undefined : turn.id);
+        return outcome === 'deleted'
+            ? `Deleted "${relativePath}": it did not exist before it was first written.`
+            : `Restored "${relativePath}" from backup.`;
     }
 
-    private async _createBackup(relativePath: string, fileUri: vscode.Uri, rootUri: vscode.Uri) {
-        try {
-            await vscode.workspace.fs.stat(fileUri);
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            const backupPath = `${relativePath}.bak.${timestamp}`;
-            const backupUri = vscode.Uri.joinPath(rootUri, backupPath);
-            await vscode.workspace.fs.copy(fileUri, backupUri, { overwrite: true });
-        } catch (e) { }
+    /**
+     * Saves the file's pre-edit state in the turn's checkpoint and, the first
+     * time the turn touches a file, lets the webview offer to revert it.
+     */
+    private async _snapshot(turn: TurnInfo, fileUri: vscode.Uri, relativePath: string) {
+        const created = await this._checkpoints.snapshot(turn, fileUri, relativePath);
+        if (created) {
+            const session = this._sessions.get(turn.sessionId);
+            session?.messages.forEach(m => {
+                if ('turnId' in m && m.turnId === turn.id) m.checkpoint = true;
+            });
+            this._sessions.touch(turn.sessionId);
+            this._view?.webview.postMessage({ type: 'checkpointCreated', turnId: turn.id, sessionId: turn.sessionId });
+        }
     }
 
-    private async _runCommand(command: string): Promise<string> {
+    private async _runCommand(
+        command: string,
+        cwdPath: string | undefined,
+        signal: AbortSignal,
+        onOutput: (chunk: string) => void
+    ): Promise<string> {
         if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        return new Promise((resolve) => {
-            cp.exec(command, { cwd: rootPath, maxBuffer: 1024 * 1024 }, (err, stdout, stderr) => {
-                const output = (stdout || '') + (stderr ? `\nstderr:\n${stderr}` : '');
-                if (err) resolve(`Exit Code: ${err.code}\n${output}`);
-                else resolve(output || 'Done');
-            });
-        });
+        const rootPath = cwdPath
+            ? (await this._sandbox.resolve(cwdPath, true)).uri.fsPath
+            : vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const { timeoutMs } = getCommandConfig();
+        const result = await this._commands.run(command, { cwd: rootPath, timeoutMs, signal, onOutput });
+        return formatCommandResult(result, timeoutMs);
     }
 
-    private async _writeFile(relativePath: string, content: string): Promise<string> {
-        if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const rootUri = vscode.workspace.workspaceFolders[0].uri;
-        const fileUri = vscode.Uri.joinPath(rootUri, relativePath);
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        if (this._ignorePatterns.some(pattern => normalizedPath.includes(`/${pattern}/`) || normalizedPath.startsWith(`${pattern}/`))) {
-            throw new Error(`Access denied: "${relativePath}" is ignored.`);
-        }
-        await this._createBackup(relativePath, fileUri, rootUri);
+    /**
+     * Forwards command output to the webview's running tool card, batched so
+     * chatty commands don't flood it. Nothing is stored: the card gets the
+     * complete result once the command is done.
+     */
+    private _toolOutputSink(webviewView: vscode.WebviewView, sessionId: string, id: string): (chunk: string) => void {
+        let pending = '';
+        let timer: NodeJS.Timeout | undefined;
+        return chunk => {
+            pending += chunk;
+            if (timer) return;
+            timer = setTimeout(() => {
+                webviewView.webview.postMessage({ type: 'toolOutput', id, chunk: pending, sessionId });
+                pending = '';
+                timer = undefined;
+            }, TOOL_OUTPUT_INTERVAL_MS);
+        };
+    }
+
+    private async _writeFile(inputPath: string, content: string, turn: TurnInfo, signal: AbortSignal): Promise<string> {
+        const { uri: fileUri, displayPath: relativePath } = await this._sandbox.resolve(inputPath);
+        const problems = await this._problemsBeforeEdit(fileUri, signal);
+        await this._snapshot(turn, fileUri, relativePath);
         await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(content));
         try {
             const doc = await vscode.workspace.openTextDocument(fileUri);
             await vscode.window.showTextDocument(doc, { preview: false, preserveFocus: true });
         } catch (e) { }
-        return `Written to ${relativePath}`;
+        return this._withDiagnostics(`Written to ${relativePath}`, fileUri, relativePath, problems, signal);
     }
 
-    private async _readFile(relativePath: string): Promise<string> {
-        if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        if (this._ignorePatterns.some(pattern => normalizedPath.includes(`/${pattern}/`) || normalizedPath.startsWith(`${pattern}/`))) {
-            throw new Error(`Access denied: "${relativePath}" is ignored.`);
-        }
-        const uri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, relativePath);
+    /**
+     * Reads a whole file, or with `startLine`/`endLine` (1-based, inclusive)
+     * just those lines, numbered so later edits can refer to them.
+     */
+    private async _readFile(inputPath: string, startLine?: string, endLine?: string): Promise<string> {
+        const { uri, displayPath } = await this._sandbox.resolve(inputPath);
         const data = await vscode.workspace.fs.readFile(uri);
-        return new TextDecoder().decode(data);
+        const text = new TextDecoder().decode(data);
+        if (!startLine && !endLine) return text;
+
+        const lines = text.split(/\r?\n/);
+        const first = Math.max(1, parseInt(startLine || '1', 10));
+        const last = Math.min(lines.length, parseInt(endLine || String(lines.length), 10));
+        if (first > lines.length || first > last) {
+            throw new Error(`Lines ${first}-${last} are outside "${displayPath}", which has ${lines.length} lines.`);
+        }
+        const numbered = lines.slice(first - 1, last).map((line, i) => `${first + i}: ${line}`);
+        return `${displayPath} lines ${first}-${last} of ${lines.length}:\n${numbered.join('\n')}`;
     }
 
     private async _listFiles(): Promise<string> {
         if (!vscode.workspace.workspaceFolders) throw new Error('No workspace');
-        const excludePattern = `**/{${this._ignorePatterns.join(',')}}/**`;
-        const files = await vscode.workspace.findFiles('**/*', excludePattern);
-        return files.map(f => vscode.workspace.asRelativePath(f)).join('\n');
-    }
-
-    private _getHtmlForWebview(webview: vscode.Webview) {
-        return `
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.8.0/styles/atom-one-dark.min.css">
-                <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.8.0/highlight.min.js"></script>
-                <script src="https://cdnjs.cloudflare.com/ajax/libs/marked/9.1.2/marked.min.js"></script>
-                <style>
-                    :root {
-                        --bg-color: #0d1117;
-                        --sidebar-bg: #161b22;
-                        --border-color: #30363d;
-                        --text-color: #c9d1d9;
-                        --accent-color: #58a6ff;
-                        --user-msg-bg: #21262d;
-                        --ai-msg-bg: transparent;
-                        --card-bg: #161b22;
-                        --hover-color: #21262d;
-                        --active-color: #30363d;
-                        --success-color: #238636;
-                        --error-color: #f85149;
-                        --online-color: #3fb950;
-                        --offline-color: #f85149;
-                    }
-                    * { box-sizing: border-box; }
-                    body {
-                        margin: 0; padding: 0;
-                        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
-                        background-color: var(--bg-color); color: var(--text-color);
-                        display: flex; height: 100vh; overflow: hidden;
-                    }
-                    .sidebar {
-                        width: 240px; background-color: var(--sidebar-bg);
-                        border-right: 1px solid var(--border-color);
-                        display: flex; flex-direction: column; flex-shrink: 0;
-                    }
-                    .sidebar-header { padding: 16px; font-size: 11px; font-weight: 600; color: #8b949e; display: flex; justify-content: space-between; }
-                    .session-list { flex: 1; overflow-y: auto; list-style: none; padding: 0; margin: 0; }
-                    .session-item { padding: 10px 16px; cursor: pointer; display: flex; align-items: center; justify-content: space-between; font-size: 13px; color: #8b949e; }
-                    .session-item:hover { background: var(--hover-color); color: #c9d1d9; }
-                    .session-item.active { background: var(--active-color); color: #fff; border-left: 2px solid var(--accent-color); }
-                    .action-btn { visibility: hidden; opacity: 0.6; cursor: pointer; }
-                    .session-item:hover .action-btn { visibility: visible; }
-                    .main-area { flex: 1; display: flex; flex-direction: column; min-width: 0; position: relative; }
-                    .header { height: 40px; border-bottom: 1px solid var(--border-color); display: flex; align-items: center; justify-content: space-between; padding: 0 16px; }
-                    .health-status { display: flex; align-items: center; gap: 6px; font-size: 10px; font-weight: 700; text-transform: uppercase; }
-                    .chat-container { flex: 1; overflow-y: auto; padding: 24px; display: flex; flex-direction: column; gap: 24px; }
-                    .message { max-width: 100%; animation: fadeIn 0.3s ease; }
-                    .message.user { align-self: flex-end; background: var(--user-msg-bg); padding: 12px 16px; border-radius: 12px; max-width: 80%; }
-                    .message.ai { align-self: flex-start; width: 100%; border-bottom: 1px solid var(--border-color); padding-bottom: 24px; }
-                    .ai-content { font-size: 14px; line-height: 1.6; }
-                    .tool-card { background: var(--card-bg); border: 1px solid var(--border-color); border-radius: 8px; margin: 10px 0; overflow: hidden; }
-                    .tool-header { padding: 8px 12px; background: rgba(255,255,255,0.03); display: flex; justify-content: space-between; align-items: center; cursor: pointer; font-size: 12px; }
-                    .tool-status { display: flex; align-items: center; gap: 8px; }
-                    .status-dot { width: 8px; height: 8px; border-radius: 50%; }
-                    .status-running { background: var(--accent-color); animation: pulse 1.5s infinite; }
-                    .status-success { background: var(--success-color); }
-                    .status-error { background: var(--error-color); }
-                    .tool-details { padding: 12px; border-top: 1px solid var(--border-color); display: none; }
-                    .tool-details.show { display: block; }
-                    pre { background: #000; padding: 10px; border-radius: 4px; overflow-x: auto; font-size: 12px; }
-                    .input-area { padding: 20px; border-top: 1px solid var(--border-color); background: var(--bg-color); }
-                    .input-wrapper { background: #161b22; border: 1px solid var(--border-color); border-radius: 12px; padding: 8px; display: flex; flex-direction: column; gap: 8px; }
-                    textarea { background: transparent; border: none; color: #fff; width: 100%; min-height: 60px; resize: none; outline: none; padding: 8px; font-family: inherit; }
-                    .input-footer { display: flex; justify-content: space-between; align-items: center; }
-                    .send-btn { background: var(--accent-color); color: #fff; border: none; padding: 6px 16px; border-radius: 6px; font-weight: 600; cursor: pointer; }
-                    .working-indicator { color: var(--accent-color); font-size: 12px; display: none; align-items: center; gap: 8px; }
-                    @keyframes fadeIn { from { opacity: 0; transform: translateY(10px); } to { opacity: 1; transform: translateY(0); } }
-                    @keyframes pulse { 0% { opacity: 0.4; } 50% { opacity: 1; } 100% { opacity: 0.4; } }
-                </style>
-            </head>
-            <body>
-                <div class="sidebar">
-                    <div class="sidebar-header">CHATS <span id="newChatBtn" style="cursor:pointer">+</span></div>
-                    <ul class="session-list" id="sessionList"></ul>
-                </div>
-                <div class="main-area">
-                    <div class="header">
-                        <div style="font-size: 12px; font-weight: 600;">Elite Worker AI</div>
-                        <div class="health-status" id="healthBox">
-                            <span class="status-dot" id="healthDot" style="background: grey;"></span>
-                            <span id="healthText">Checking...</span>
-                        </div>
-                    </div>
-                    <div class="chat-container" id="chat"></div>
-                    <div class="working-indicator" id="working" style="padding: 10px 24px;">
-                         <span class="status-dot status-running"></span> Assistant is working...
-                    </div>
-                    <div class="input-area">
-                        <div class="input-wrapper">
-                            <textarea id="input" placeholder="Ask Elite Architect..."></textarea>
-                            <div class="input-footer">
-                                <span style="font-size: 10px; color: #8b949e;">Shift+Enter for newline</span>
-                                <button id="send" class="send-btn">Send</button>
-                            </div>
-                        </div>
-                    </div>
-                </div>
-                <script>
-                    const vscode = acquireVsCodeApi();
-                    const chatDiv = document.getElementById('chat');
-                    const input = document.getElementById('input');
-                    const sendBtn = document.getElementById('send');
-                    const workingInd = document.getElementById('working');
-                    const sessionListEl = document.getElementById('sessionList');
-                    const healthDot = document.getElementById('healthDot');
-                    const healthText = document.getElementById('healthText');
-                    
-                    let sessions = JSON.parse(localStorage.getItem('worker_sessions') || '[]');
-                    let currentId = localStorage.getItem('worker_active_session');
-                    
-                    if (!sessions.length) createNewSession('Initial Chat');
-                    else { if (!currentId || !sessions.find(s=>s.id === currentId)) currentId = sessions[0].id; switchSession(currentId); }
-
-                    async function checkHealth() {
-                        try {
-                            const res = await fetch('XXXXXXXXXXXXXXXXXXXX/health');
-                            if (res.ok) {
-                                healthDot.style.background = 'var(--online-color)';
-                                healthText.textContent = 'System Online';
-                                healthText.style.color = 'var(--online-color)';
-                            } else { throw new Error(); }
-                        } catch (e) {
-                            healthDot.style.background = 'var(--offline-color)';
-                            healthText.textContent = 'System Offline';
-                            healthText.style.color = 'var(--offline-color)';
-                        }
-                    }
-                    setInterval(checkHealth, 30000); checkHealth();
+        const files = await vscode.workspace.findFiles('**/*', this._sandbox.excludeGlob());
+        const byFolder: Map<vscode.WorkspaceFolder, string[]> = new Map();
+        for (const file of files) {
+            const folder = vscode.workspace.getWorkspaceFolder(file);
+            if (!folder) continue;
+            const relativePath = vscode.workspace.asRelativePath(file, false);
+            if (await this._sandbox.exclusionReason(folder, relativePath)) continue;
+            if (!byFolder.has(folder)) byFolder.set(folder, []);
+            byFolder.get(folder)!.push(qualifyPath(folder, relativePath));
+        }
+        if (!isMultiRoot()) {
+            return (byFolder.get(vscode.workspace.workspaceFolders[0]) || []).sort().join('\n');
+        }
+        return vscode.workspace.workspaceFolders
+            .map(folder => `# ${folder.name}\n${(byFolder.get(folder) || []).sort().join('\n') || '(no files)'}`)
+            .join('\n\n');
+    }
 
-                    function createNewSession(name) {
-                        const id = 'sess_' + Date.now();
-                        sessions.unshift({ id, name, messages: [] });
-                        save(); switchSession(id);
-                    }
-                    function switchSession(id) {
-                        currentId = id; localStorage.setItem('worker_active_session', id);
-                        workingInd.style.display = 'none';
-                        renderSessions(); loadChat(id);
-                    }
-                    function save() { localStorage.setItem('worker_sessions', JSON.stringify(sessions)); }
-                    function renderSessions() {
-                        sessionListEl.innerHTML = '';
-                        sessions.forEach(s => {
-                            const li = document.createElement('li');
-                            li.className = 'session-item ' + (s.id === currentId ? 'active' : '');
-                            li.innerHTML = '<span class="s-name">' + s.name + '</span>' +
-                                '<div><span class="action-btn" onclick="renameChat(\\''+s.id+'\\',event)">✎</span> <span class="action-btn" onclick="deleteChat(\\''+s.id+'\\',event)">×</span></div>';
-                            li.onclick = () => switchSession(s.id);
-                            sessionListEl.appendChild(li);
-                        });
-                    }
-                    function deleteChat(id, e) {
-                        e.stopPropagation(); sessions = sessions.filter(s => s.id !== id);
-                        workingInd.style.display = 'none';
-                        if (!sessions.length) createNewSession('New Chat');
-                        else if (currentId === id) switchSession(sessions[0].id);
-                        save(); renderSessions();
-                    }
-                    function renameChat(id, e) {
-                        e.stopPropagation();
-                        const s = sessions.find(x => x.id === id);
-                        const newName = prompt('New name:', s.name);
-                        if (newName) { s.name = newName; save(); renderSessions(); }
-                    }
-                    function loadChat(id) {
-                        chatDiv.innerHTML = ''; const s = sessions.find(x => x.id === id);
-                        s.messages.forEach(m => {
-                            if (m.type === 'tool') addToolCard(m.data, m.data.sessionId === currentId);
-                            else appendUI(m.text, m.isUser, m.sessionId === currentId);
-                        });
-                    }
-                    function appendUI(text, isUser, visible=true) {
-                        if (!text) return;
-                        const div = document.createElement('div');
-                        div.className = 'message ' + (isUser ? 'user' : 'ai');
-                        div.innerHTML = isUser ? text : '<div class="ai-content">' + marked.parse(text) + '</div>';
-                        if (visible) { chatDiv.appendChild(div); chatDiv.scrollTop = chatDiv.scrollHeight; }
-                        div.querySelectorAll('pre code').forEach(el => hljs.highlightElement(el));
-                    }
-                    function addToolCard(data, visible=true) {
-                        const id = 'tool_' + Date.now() + Math.random();
-                        const div = document.createElement('div');
-                        div.className = 'tool-card'; div.id = id;
-                        const title = (data.code === 'write_file' || data.code === 'replace_lines') ? 
-                            '🛠️ ' + data.code + ': ' + (data.path || 'file') : '⚙️ ' + data.code;
-                        div.innerHTML = \`
-                            <div class="tool-header" onclick="toggleTool('\${id}')">
-                                <span>\${title}</span>
-                                <div class="tool-status"><span class="status-dot status-\${data.status}"></span>\${data.status}</div>
-                            </div>
-                            <div class="tool-details"><pre><code>\${data.result || 'Processing...'}</code></pre></div>
-                        \`;
-                        if (visible) { chatDiv.appendChild(div); chatDiv.scrollTop = chatDiv.scrollHeight; }
-                        return id;
-                    }
-                    window.toggleTool = (id) => { document.getElementById(id).querySelector('.tool-details').classList.toggle('show'); };
-                    function sendMessage() {
-                        const text = input.value.trim(); if (!text) return;
-                        appendUI(text, true); const s = sessions.find(x => x.id === currentId);
-                        s.messages.push({ text, isUser: true, sessionId: currentId });
-                        if (s.name === 'Initial Chat' || s.name === 'New Chat') { s.name = text.substring(0,15); renderSessions(); }
-                        save(); input.value = ''; sendBtn.disabled = true;
-                        vscode.postMessage({ type: 'sendMessage', message: text, sessionId: currentId });
-                    }
-                    sendBtn.onclick = sendMessage;
-                    input.onkeydown = e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendMessage(); } };
-                    window.addEventListener('message', e => {
-                        const m = e.data; const s = sessions.find(x => x.id === m.sessionId);
-                        if (m.type === 'status' && m.sessionId === currentId) workingInd.style.display = m.working ? 'flex' : 'none';
-                        if (m.type === 'receiveMessage') {
-                            appendUI(m.message, false, m.sessionId === currentId);
-                            s.messages.push({ text: m.message, isUser: false, sessionId: m.sessionId });
-                            if (m.sessionId === currentId) sendBtn.disabled = false;
-                            save();
-                        }
-                        if (m.type === 'toolCall') {
-                            addToolCard(m, m.sessionId === currentId);
-                            s.messages.push({ type: 'tool', data: m, sessionId: m.sessionId });
-                            save();
-                        }
-                    });
-                    document.getElementById('newChatBtn').onclick = () => createNewSession('New Chat');
-                </script>
-            </body>
-            </html>
-        `;
+    /** The chat page from `media/chat.html`, with resource URIs and a fresh script nonce filled in. */
+    private async _getHtmlForWebview(webview: vscode.Webview): Promise<string> {
+        const media = vscode.Uri.joinPath(this._extensionUri, 'media');
+        const resource = (...path: string[]) => webview.asWebviewUri(vscode.Uri.joinPath(media, ...path)).toString();
+        const values: { [key: string]: string } = {
+            cspSource: webview.cspSource,
+            nonce: crypto.randomBytes(16).toString('base64'),
+            styleUri: resource('chat.css'),
+            highlightStyleUri: resource('vendor', 'atom-one-dark.min.css'),
+            markedUri: resource('vendor', 'marked.min.js'),
+            highlightUri: resource('vendor', 'highlight.min.js'),
+            markdownUri: resource('markdown.js'),
+            scriptUri: resource('chat.js')
+        };
+        const template = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(media, 'chat.html')));
+        return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
     }
-}
\ No newline at end of file
+}
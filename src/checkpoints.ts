@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { TextDecoder, TextEncoder } from 'util';
+
+const MAX_CHECKPOINTS = 100;
+
+/** The user message whose agent loop a checkpoint belongs to. */
+export interface TurnInfo {
+    id: string;
+    sessionId: string;
+    label: string;
+}
+
+export interface CheckpointFile {
+    uri: string;
+    path: string;
+    /** Name of the stored copy, absent when the turn created the file. */
+    backup?: string;
+}
+
+export interface Checkpoint {
+    id: string;
+    sessionId: string;
+    label: string;
+    timestamp: number;
+    files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+    checkpointIds: string[];
+    restored: string[];
+    deleted: string[];
+    /** Files whose backup could not be put back; the checkpoints are kept then, so the revert can be retried. */
+    failed: string[];
+}
+
+/**
+ * Keeps the pre-edit state of every file the agent touches in extension
+ * storage, grouped into one checkpoint per user message, so a whole turn can
+ * be undone without leaving backup files in the workspace.
+ */
+export class CheckpointStore {
+    private _index?: Checkpoint[];
+    private _queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly _storageUri: vscode.Uri) { }
+
+    private get _rootUri(): vscode.Uri {
+        return vscode.Uri.joinPath(this._storageUri, 'checkpoints');
+    }
+
+    private get _indexUri(): vscode.Uri {
+        return vscode.Uri.joinPath(this._rootUri, 'index.json');
+    }
+
+    /**
+     * Records the current state of `fileUri` in the turn's checkpoint unless
+     * the turn already did; only the state before the turn's first edit counts.
+     * Resolves to true when this call created the checkpoint.
+     */
+    public snapshot(turn: TurnInfo, fileUri: vscode.Uri, relativePath: string): Promise<boolean> {
+        return this._exclusive(async () => {
+            const index = await this._load();
+            let checkpoint = index.find(c => c.id === turn.id);
+            const created = !checkpoint;
+            if (!checkpoint) {
+                checkpoint = { id: turn.id, sessionId: turn.sessionId, label: turn.label, timestamp: Date.now(), files: [] };
+                index.push(checkpoint);
+            }
+            if (checkpoint.files.some(f => f.uri === fileUri.toString())) return false;
+
+            const file: CheckpointFile = { uri: fileUri.toString(), path: relativePath };
+            try {
+                const data = await vscode.workspace.fs.readFile(fileUri);
+                file.backup = `${checkpoint.files.length}.bak`;
+                await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this._rootUri, checkpoint.id, file.backup), data);
+            } catch (e) {
+                // The file does not exist yet, so reverting the turn deletes it.
+            }
+            checkpoint.files.push(file);
+
+            await this._prune(index);
+            await this._save(index);
+            return created;
+        });
+    }
+
+    public list(sessionId?: string): Promise<Checkpoint[]> {
+        return this._exclusive(async () => {
+            const index = await this._load();
+            return index
+                .filter(c => !sessionId || c.sessionId === sessionId)
+                .sort((a, b) => b.timestamp - a.timestamp);
+        });
+    }
+
+    /**
+     * Puts every file back to how it was before `checkpointId`'s turn, undoing
+     * that turn and all later turns of the same session. The consumed
+     * checkpoints are removed once every file has been put back.
+     */
+    public restore(checkpointId: string): Promise<RestoreResult> {
+        return this._exclusive(async () => {
+            const index = await this._load();
+            const target = index.find(c => c.id === checkpointId);
+            if (!target) throw new Error('Checkpoint not found.');
+
+            const undone = index
+                .filter(c => c.sessionId === target.sessionId && c.timestamp >= target.timestamp)
+                .sort((a, b) => b.timestamp - a.timestamp);
+
+            // Older checkpoints come last, so a file ends up with the earliest state recorded for it.
+            const restored = new Set<string>();
+            const deleted = new Set<string>();
+            const failed = new Set<string>();
+            for (const checkpoint of undone) {
+                for (const file of checkpoint.files) {
+                    try {
+                        await this._restoreFile(checkpoint, file);
+                    } catch (e) {
+                        failed.add(file.path);
+                        restored.delete(file.path);
+                        deleted.delete(file.path);
+                        continue;
+                    }
+                    failed.delete(file.path);
+                    (file.backup ? restored : deleted).add(file.path);
+                    (file.backup ? deleted : restored).delete(file.path);
+                }
+            }
+
+            if (!failed.size) {
+                for (const checkpoint of undone) {
+                    index.splice(index.indexOf(checkpoint), 1);
+                    await this._deleteBlobs(checkpoint);
+                }
+                await this._save(index);
+            }
+
+            return {
+                checkpointIds: failed.size ? [] : undone.map(c => c.id),
+                restored: Array.from(restored),
+                deleted: Array.from(deleted),
+                failed: Array.from(failed)
+            };
+        });
+    }
+
+    /**
+     * Restores a single file from the most recent checkpoint that recorded it,
+     * other than `skipId`.
+     */
+    public restoreLatest(fileUri: vscode.Uri, skipId?: string): Promise<'restored' | 'deleted'> {
+        return this._exclusive(async () => {
+            const index = await this._load();
+            const checkpoint = index
+                .filter(c => c.id !== skipId && c.files.some(f => f.uri === fileUri.toString()))
+                .sort((a, b) => b.timestamp - a.timestamp)[0];
+            if (!checkpoint) throw new Error('No checkpoint found for this file.');
+            const file = checkpoint.files.find(f => f.uri === fileUri.toString())!;
+            await this._restoreFile(checkpoint, file);
+            return file.backup ? 'restored' : 'deleted';
+        });
+    }
+
+    public deleteSession(sessionId: string): Promise<void> {
+        return this._exclusive(async () => {
+            const index = await this._load();
+            const removed = index.filter(c => c.sessionId === sessionId);
+            if (!removed.length) return;
+            for (const checkpoint of removed) {
+                index.splice(index.indexOf(checkpoint), 1);
+                await this._deleteBlobs(checkpoint);
+            }
+            await this._save(index);
+        });
+    }
+
+    private async _restoreFile(checkpoint: Checkpoint, file: CheckpointFile) {
+        const fileUri = vscode.Uri.parse(file.uri);
+        if (file.backup) {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this._rootUri, checkpoint.id, file.backup));
+            await vscode.workspace.fs.writeFile(fileUri, data);
+        } else {
+            try {
+                await vscode.workspace.fs.delete(fileUri, { useTrash: false });
+            } catch (e) { }
+        }
+    }
+
+    private async _prune(index: Checkpoint[]) {
+        if (index.length <= MAX_CHECKPOINTS) return;
+        const oldest = index.slice().sort((a, b) => a.timestamp - b.timestamp).slice(0, index.length - MAX_CHECKPOINTS);
+        for (const checkpoint of oldest) {
+            index.splice(index.indexOf(checkpoint), 1);
+            await this._deleteBlobs(checkpoint);
+        }
+    }
+
+    private async _deleteBlobs(checkpoint: Checkpoint) {
+        try {
+            await vscode.workspace.fs.delete(vscode.Uri.joinPath(this._rootUri, checkpoint.id), { recursive: true });
+        } catch (e) { }
+    }
+
+    private async _load(): Promise<Checkpoint[]> {
+        if (!this._index) {
+            try {
+                this._index = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(this._indexUri)));
+            } catch (e) {
+                this._index = [];
+            }
+        }
+        return this._index!;
+    }
+
+    private async _save(index: Checkpoint[]) {
+        await vscode.workspace.fs.writeFile(this._indexUri, new TextEncoder().encode(JSON.stringify(index)));
+    }
+
+    /** Runs index updates one at a time so concurrent sessions don't clobber each other. */
+    private _exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this._queue.then(task, task);
+        this._queue = run.catch(() => undefined);
+        return run;
+    }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+
+const SHELL_TERMINAL_NAME = 'Worker AI Shell';
+
+export type CodeBlockAction = 'copy' | 'insert' | 'replace' | 'newFile' | 'run';
+
+/** Fence tags of blocks that can be sent to the terminal. */
+const SHELL_LANGUAGES = ['sh', 'bash', 'zsh', 'fish', 'shell', 'shellscript', 'console', 'powershell', 'pwsh', 'ps1', 'cmd', 'bat', 'batch'];
+
+/** Fence tags that differ from the VS Code language id they stand for. */
+const LANGUAGE_ALIASES: { [tag: string]: string } = {
+    js: 'javascript', jsx: 'javascriptreact', mjs: 'javascript', cjs: 'javascript',
+    ts: 'typescript', tsx: 'typescriptreact',
+    py: 'python', rb: 'ruby', rs: 'rust', kt: 'kotlin', cs: 'csharp', 'c#': 'csharp', fs: 'fsharp',
+    'c++': 'cpp', cc: 'cpp', h: 'c', hpp: 'cpp', golang: 'go',
+    sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', shell: 'shellscript', console: 'shellscript',
+    ps1: 'powershell', pwsh: 'powershell', cmd: 'bat', batch: 'bat',
+    yml: 'yaml', md: 'markdown', json5: 'json', htm: 'html', xhtml: 'html', svg: 'xml',
+    docker: 'dockerfile', make: 'makefile', mk: 'makefile',
+    text: 'plaintext', txt: 'plaintext', plain: 'plaintext'
+};
+
+/**
+ * Carries out the toolbar buttons of code blocks in the assistant's replies.
+ * The buttons act on the user's behalf, so nothing here goes through the
+ * approval policy or the workspace sandbox that guard the agent's tools.
+ */
+export class CodeBlockActions implements vscode.Disposable {
+    private _terminal?: vscode.Terminal;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this._disposables.push(vscode.window.onDidCloseTerminal(terminal => {
+            if (terminal === this._terminal) this._terminal = undefined;
+        }));
+    }
+
+    /** Carries out a toolbar button; failures are shown to the user rather than thrown. */
+    public async run(action: CodeBlockAction, code: string, language?: string) {
+        const tag = (language || '').toLowerCase();
+        try {
+            if (action === 'copy') {
+                await vscode.env.clipboard.writeText(code);
+            } else if (action === 'insert' || action === 'replace') {
+                await this._edit(action, code);
+            } else if (action === 'newFile') {
+                const document = await vscode.workspace.openTextDocument({ language: await languageId(tag), content: code });
+                await vscode.window.showTextDocument(document);
+            } else if (action === 'run' && SHELL_LANGUAGES.indexOf(tag) !== -1) {
+                this._runInTerminal(tag === 'console' ? consoleCommands(code) : code);
+            }
+        } catch (e) {
+            vscode.window.showErrorMessage(`Worker AI Chat: the code block action failed: ${e instanceof Error ? e.message : e}.`);
+        }
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    private async _edit(action: 'insert' | 'replace', code: string) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showWarningMessage('Worker AI Chat: open a file in the editor first.');
+            return;
+        }
+        if (action === 'replace' && editor.selections.every(selection => selection.isEmpty)) {
+            vscode.window.showWarningMessage('Worker AI Chat: select the code to replace first.');
+            return;
+        }
+        const applied = await editor.edit(builder => editor.selections.forEach(selection => {
+            if (action === 'replace') builder.replace(selection, code);
+            else builder.insert(selection.active, code);
+        }));
+        if (!applied) throw new Error(`the editor of ${vscode.workspace.asRelativePath(editor.document.uri)} did not accept the edit`);
+        await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+    }
+
+    private _runInTerminal(commands: string) {
+        if (!this._terminal) this._terminal = vscode.window.createTerminal({ name: SHELL_TERMINAL_NAME });
+        this._terminal.show();
+        this._terminal.sendText(commands.replace(/\s+$/, ''));
+    }
+}
+
+/** The VS Code language for a fence tag, plain text when VS Code knows no such language. */
+async function languageId(tag: string): Promise<string> {
+    if (!tag) return 'plaintext';
+    const id = LANGUAGE_ALIASES[tag] || tag;
+    const known = await vscode.languages.getLanguages();
+    return known.indexOf(id) !== -1 ? id : 'plaintext';
+}
+
+/** The commands of a `console` block: the lines after a `$` prompt, without the output shown between them. */
+function consoleCommands(code: string): string {
+    const lines = code.split('\n');
+    const prompted = lines.filter(line => /^\s*\$ /.test(line));
+    return prompted.length ? prompted.map(line => line.replace(/^\s*\$ /, '')).join('\n') : code;
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import { stripAnsi } from './mentions';
+
+const TERMINAL_NAME = 'Worker AI';
+/** Output kept per command; older output is dropped first. */
+const MAX_OUTPUT_CHARS = 512 * 1024;
+/** How long a process gets to exit after SIGTERM before it is killed outright. */
+const KILL_GRACE_MS = 3000;
+
+export interface CommandResult {
+    /** `null` when the process was killed or never started. */
+    exitCode: number | null;
+    output: string;
+    /** Why the process was stopped before it exited on its own. */
+    stopped?: 'timeout' | 'cancelled' | 'closed';
+}
+
+export interface RunOptions {
+    cwd: string;
+    /** 0 lets the command run until it exits or is cancelled. */
+    timeoutMs: number;
+    signal?: AbortSignal;
+    /** Called with each piece of output as it arrives, ANSI codes removed. */
+    onOutput?(chunk: string): void;
+}
+
+/**
+ * Runs the agent's commands in a "Worker AI" pseudoterminal, so the user can
+ * watch them as they run and stop one with Ctrl+C. Commands run one at a time,
+ * without input, and are killed with their child processes on timeout,
+ * cancellation or when the terminal is closed.
+ */
+export class CommandRunner implements vscode.Disposable {
+    private _terminal?: vscode.Terminal;
+    private _writeEmitter?: vscode.EventEmitter<string>;
+    /** Terminal output written before VS Code opened the pseudoterminal. */
+    private _pending?: string[];
+    private _stopRunning?: (reason: 'cancelled' | 'closed') => void;
+    private _queue: Promise<unknown> = Promise.resolve();
+
+    public run(command: string, options: RunOptions): Promise<CommandResult> {
+        const result = this._queue.then(() => this._run(command, options));
+        this._queue = result.catch(() => undefined);
+        return result;
+    }
+
+    public dispose() {
+        this._stopRunning?.('closed');
+        this._terminal?.dispose();
+        this._reset();
+    }
+
+    private _run(command: string, options: RunOptions): Promise<CommandResult> {
+        if (options.signal?.aborted) return Promise.resolve({ exitCode: null, output: '', stopped: 'cancelled' });
+        this._showTerminal();
+        this._write(`\x1b[1m${options.cwd}$ ${command}\x1b[0m\n`);
+
+        return new Promise(resolve => {
+            const child = cp.spawn(command, {
+                cwd: options.cwd,
+                shell: true,
+                stdio: ['ignore', 'pipe', 'pipe'],
+                // Its own process group on POSIX, so the shell's children can be killed with it.
+                detached: process.platform !== 'win32'
+            });
+            let output = '';
+            let dropped = false;
+            let stopped: CommandResult['stopped'];
+            let finished = false;
+
+            const onData = (data: string) => {
+                this._write(data);
+                const chunk = stripAnsi(data);
+                output += chunk;
+                if (output.length > MAX_OUTPUT_CHARS) {
+                    output = output.slice(-MAX_OUTPUT_CHARS);
+                    dropped = true;
+                }
+                options.onOutput?.(chunk);
+            };
+            child.stdout!.setEncoding('utf8');
+            child.stderr!.setEncoding('utf8');
+            child.stdout!.on('data', onData);
+            child.stderr!.on('data', onData);
+
+            const stop = (reason: NonNullable<CommandResult['stopped']>) => {
+                if (finished || stopped) return;
+                stopped = reason;
+                killTree(child);
+            };
+            const timer = options.timeoutMs > 0 ? setTimeout(() => stop('timeout'), options.timeoutMs) : undefined;
+            const onAbort = () => stop('cancelled');
+            options.signal?.addEventListener('abort', onAbort);
+            this._stopRunning = stop;
+
+            const finish = (exitCode: number | null, error?: Error) => {
+                if (finished) return;
+                finished = true;
+                if (timer) clearTimeout(timer);
+                options.signal?.removeEventListener('abort', onAbort);
+                if (this._stopRunning === stop) this._stopRunning = undefined;
+                if (error) output += `${output ? '\n' : ''}${error.message}`;
+
+                const status = stopped ? `killed: ${stopped}` : error ? 'failed to start' : `exit code ${exitCode}`;
+                this._write(`\n\x1b[2m[${status}]\x1b[0m\n\n`);
+                const text = output.replace(/\s+$/, '');
+                resolve({
+                    exitCode: stopped ? null : exitCode,
+                    output: dropped ? `… [earlier output dropped] …\n${text}` : text,
+                    stopped
+                });
+            };
+            child.on('error', error => finish(null, error));
+            child.on('close', code => finish(code));
+        });
+    }
+
+    private _showTerminal() {
+        if (!this._terminal) {
+            const writeEmitter = new vscode.EventEmitter<string>();
+            const pty: vscode.Pseudoterminal = {
+                onDidWrite: writeEmitter.event,
+                open: () => {
+                    (this._pending || []).forEach(text => writeEmitter.fire(text));
+                    this._pending = undefined;
+                },
+                close: () => {
+                    this._stopRunning?.('closed');
+                    this._reset();
+                },
+                handleInput: data => {
+                    if (data === '\x03') this._stopRunning?.('cancelled');
+                }
+            };
+            this._writeEmitter = writeEmitter;
+            this._pending = [];
+            this._terminal = vscode.window.createTerminal({ name: TERMINAL_NAME, pty });
+        }
+        this._terminal.show(true);
+    }
+
+    private _write(text: string) {
+        const data = text.replace(/\r?\n/g, '\r\n');
+        if (this._pending) this._pending.push(data);
+        else this._writeEmitter?.fire(data);
+    }
+
+    private _reset() {
+        this._writeEmitter?.dispose();
+        this._writeEmitter = undefined;
+        this._terminal = undefined;
+        this._pending = undefined;
+    }
+}
+
+/** The result as reported to the model: how the command ended, then its output. */
+export function formatCommandResult(result: CommandResult, timeoutMs: number): string {
+    const status = result.stopped === 'timeout'
+        ? `Timed out after ${Math.round(timeoutMs / 1000)}s; the process was killed. Long-running commands such as watchers and servers cannot be awaited.`
+        : result.stopped === 'cancelled'
+            ? 'Process killed: cancelled by user.'
+            : result.stopped === 'closed'
+                ? 'Process killed: the user closed the terminal.'
+                : `Exit code: ${result.exitCode}`;
+    return `${status}\n${result.output || '(no output)'}`;
+}
+
+function killTree(child: cp.ChildProcess) {
+    if (child.exitCode !== null || child.pid === undefined) return;
+    const pid = child.pid;
+    if (process.platform === 'win32') {
+        // The shell is cmd.exe, so the whole tree has to go.
+        cp.exec(`taskkill /pid ${pid} /T /F`);
+        return;
+    }
+    const signal = (name: NodeJS.Signals) => {
+        try {
+            process.kill(-pid, name);
+        } catch (e) {
+            child.kill(name);
+        }
+    };
+    signal('SIGTERM');
+    const timer = setTimeout(() => signal('SIGKILL'), KILL_GRACE_MS);
+    child.once('close', () => clearTimeout(timer));
+}
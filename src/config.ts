@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+
+export const CONFIG_SECTION = 'worker-ai-chat';
+export const TOKEN_SECRET_KEY = 'worker-ai-chat.authToken';
+
+export type ProviderKind = 'worker' | 'openai' | 'ollama';
+export type RequestMode = 'post' | 'get';
+export type ApprovalPolicy = 'alwaysAsk' | 'autoApproveReads' | 'autoApproveAll';
+export type ToolAccess = 'all' | 'read' | 'none';
+
+export interface ChatConfig {
+    provider: ProviderKind;
+    requestMode: RequestMode;
+    endpoint: string;
+    healthPath: string;
+    authHeader: string;
+    model: string;
+    timeoutMs: number;
+    stream: boolean;
+    nativeToolCalls: boolean;
+}
+
+export function getChatConfig(): ChatConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        provider: config.get<ProviderKind>('provider', 'worker'),
+        requestMode: config.get<RequestMode>('requestMode', 'post'),
+        endpoint: config.get<string>('endpoint', '').trim().replace(/\/+$/, ''),
+        healthPath: config.get<string>('healthPath', '').trim(),
+        authHeader: config.get<string>('authHeader', 'Authorization').trim(),
+        model: config.get<string>('model', '').trim(),
+        timeoutMs: Math.max(0, config.get<number>('timeout', 120)) * 1000,
+        stream: config.get<boolean>('stream', true),
+        nativeToolCalls: config.get<boolean>('nativeToolCalls', false)
+    };
+}
+
+export interface ApprovalConfig {
+    policy: ApprovalPolicy;
+    commandAllowList: string[];
+    commandDenyList: string[];
+}
+
+export function getApprovalConfig(): ApprovalConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        policy: config.get<ApprovalPolicy>('approval.policy', 'autoApproveReads'),
+        commandAllowList: config.get<string[]>('approval.commandAllowList', []),
+        commandDenyList: config.get<string[]>('approval.commandDenyList', [])
+    };
+}
+
+export interface SandboxConfig {
+    exclude: string[];
+    respectGitignore: boolean;
+}
+
+export function getSandboxConfig(): SandboxConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        exclude: config.get<string[]>('sandbox.exclude', []).map(glob => glob.trim()).filter(glob => glob.length > 0),
+        respectGitignore: config.get<boolean>('sandbox.respectGitignore', true)
+    };
+}
+
+export interface CommandConfig {
+    /** 0 lets commands run until they exit. */
+    timeoutMs: number;
+}
+
+export function getCommandConfig(): CommandConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        timeoutMs: Math.max(0, config.get<number>('commands.timeout', 120)) * 1000
+    };
+}
+
+export interface VerifyConfig {
+    diagnostics: boolean;
+}
+
+export function getVerifyConfig(): VerifyConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        diagnostics: config.get<boolean>('verify.diagnostics', true)
+    };
+}
+
+export interface ContextConfig {
+    maxTokens: number;
+    maxToolOutputTokens: number;
+    summarize: boolean;
+}
+
+export function getContextConfig(): ContextConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        maxTokens: Math.max(2000, config.get<number>('context.maxTokens', 32000)),
+        maxToolOutputTokens: Math.max(0, config.get<number>('context.maxToolOutputTokens', 4000)),
+        summarize: config.get<boolean>('context.summarize', true)
+    };
+}
+
+/** A chat mode defined in `worker-ai-chat.modes`. */
+export interface ModeSetting {
+    name: string;
+    description?: string;
+    tools?: ToolAccess;
+    instructions?: string;
+}
+
+export interface PromptConfig {
+    /** Replaces the built-in introduction of the system prompt when set. */
+    systemPrompt: string;
+    instructionsFile: string;
+    defaultMode: string;
+    modes: ModeSetting[];
+}
+
+export function getPromptConfig(): PromptConfig {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    return {
+        systemPrompt: config.get<string>('systemPrompt', '').trim(),
+        instructionsFile: config.get<string>('instructionsFile', '.workerai/instructions.md').trim(),
+        defaultMode: config.get<string>('defaultMode', 'agent').trim(),
+        modes: config.get<ModeSetting[]>('modes', []).filter(mode => mode && typeof mode.name === 'string' && mode.name.trim())
+    };
+}
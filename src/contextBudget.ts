@@ -0,0 +1,104 @@
+import { Message } from './providers';
+
+/** Rough average for English text and code; good enough to budget with. */
+const CHARS_PER_TOKEN = 4;
+/** Role markers and separators the backend adds around each message. */
+const TOKENS_PER_MESSAGE = 4;
+/** Share of the budget that may be spent on recent turns kept word for word. */
+const RECENT_SHARE = 0.5;
+
+export const SUMMARY_PROMPT = `You compress chat transcripts between a user and a coding assistant working in a VS Code workspace.
+Summarize the transcript for the assistant's own future reference. Keep the user's goals and constraints, decisions made,
+files read or changed (with their paths), commands run and their outcome, and anything still unresolved.
+Answer with concise bullet points only.`;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateRequestTokens(systemPrompt: string, messages: Message[]): number {
+    return messages.reduce(
+        (total, message) => total + estimateTokens(message.content) + TOKENS_PER_MESSAGE,
+        estimateTokens(systemPrompt)
+    );
+}
+
+/**
+ * Shortens `text` to about `maxTokens` by keeping its first and last lines
+ * and replacing the middle with a "truncated, N lines" note. A limit of 0
+ * keeps the text as it is.
+ */
+export function truncateOutput(text: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    if (maxTokens <= 0 || text.length <= maxChars) return text;
+
+    const lines = text.split('\n');
+    const head: string[] = [];
+    const tail: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+        if (used + line.length + 1 > maxChars * 0.6) break;
+        head.push(line);
+        used += line.length + 1;
+    }
+    for (let i = lines.length - 1; i >= head.length; i--) {
+        if (used + lines[i].length + 1 > maxChars) break;
+        tail.unshift(lines[i]);
+        used += lines[i].length + 1;
+    }
+
+    if (!head.length && !tail.length) {
+        // A few enormous lines (minified code, base64): cut by characters instead.
+        const headChars = Math.floor(maxChars * 0.6);
+        const tailChars = maxChars - headChars;
+        return `${text.slice(0, headChars)}\n… [truncated, ${text.length - maxChars} characters] …\n${text.slice(-tailChars)}`;
+    }
+    const omitted = lines.length - head.length - tail.length;
+    return [...head, `… [truncated, ${omitted} line${omitted === 1 ? '' : 's'}] …`, ...tail].join('\n');
+}
+
+/**
+ * Where the recent part of `history` starts once it no longer fits in
+ * `maxTokens`: the earliest user message from which the rest fits in half the
+ * budget. Everything before it is up for summarizing. The latest user message
+ * is always kept, so 0 means there is nothing older to give up.
+ */
+export function summaryCutoff(systemPrompt: string, history: Message[], maxTokens: number): number {
+    if (estimateRequestTokens(systemPrompt, history) <= maxTokens) return 0;
+    const keepBudget = maxTokens * RECENT_SHARE - estimateTokens(systemPrompt);
+    let cutoff = 0;
+    let kept = 0;
+    for (let i = history.length - 1; i > 0; i--) {
+        kept += estimateTokens(history[i].content) + TOKENS_PER_MESSAGE;
+        if (history[i].role !== 'user') continue;
+        if (cutoff && kept > keepBudget) break;
+        cutoff = i;
+    }
+    return cutoff;
+}
+
+/**
+ * The transcript handed to the summarizer, each message clipped so the whole
+ * stays within `maxTokens`.
+ */
+export function summaryTranscript(messages: Message[], maxTokens: number): string {
+    const perMessage = Math.max(200, Math.floor(maxTokens / Math.max(1, messages.length)));
+    const transcript = messages
+        .map(m => `${m.role.toUpperCase()}:\n${truncateOutput(m.content, perMessage)}`)
+        .join('\n\n');
+    return truncateOutput(transcript, maxTokens);
+}
+
+/**
+ * Clips the oldest tool outputs further, one at a time, until the request
+ * fits in `maxTokens`. Used when the turn in progress alone is over budget.
+ */
+export function shrinkToolOutputs(systemPrompt: string, history: Message[], maxTokens: number, keepTokens = 256) {
+    let total = estimateRequestTokens(systemPrompt, history);
+    for (let i = 0; i < history.length && total > maxTokens; i++) {
+        if (history[i].role !== 'tool') continue;
+        const before = estimateTokens(history[i].content);
+        history[i] = { ...history[i], content: truncateOutput(history[i].content, keepTokens) };
+        total -= before - estimateTokens(history[i].content);
+    }
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { formatDiagnostic } from './editorContext';
+
+/** How long to wait for a language server to report on an edited file at all. */
+const FIRST_REPORT_MS = 1500;
+/** Diagnostics count as settled once they have not changed for this long. */
+const QUIET_MS = 500;
+const MAX_WAIT_MS = 5000;
+const MAX_LISTED = 20;
+
+/** The errors and warnings a file has right now. */
+export function currentProblems(uri: vscode.Uri): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(uri).filter(d => d.severity <= vscode.DiagnosticSeverity.Warning);
+}
+
+/**
+ * The errors and warnings of a file about to be edited. Most language servers
+ * only report on open documents, so a closed file is opened and given time to
+ * be analyzed first; otherwise every existing problem would later look new.
+ */
+export async function problemsBeforeEdit(uri: vscode.Uri, signal?: AbortSignal): Promise<vscode.Diagnostic[]> {
+    const key = uri.toString();
+    if (!vscode.workspace.textDocuments.some(document => document.uri.toString() === key)) {
+        try {
+            await vscode.workspace.openTextDocument(uri);
+        } catch (e) {
+            // A new file has no problems yet.
+            return [];
+        }
+        await settled(uri, signal);
+    }
+    return currentProblems(uri);
+}
+
+/**
+ * Waits for the language servers to settle on an edited file, then describes
+ * the errors and warnings it has that were not there before the edit. Lines
+ * move with edits, so problems are matched by message, source and code.
+ */
+export async function checkDiagnostics(
+    uri: vscode.Uri,
+    displayPath: string,
+    before: vscode.Diagnostic[],
+    signal?: AbortSignal
+): Promise<string> {
+    try {
+        // Most language servers only analyze open documents.
+        await vscode.workspace.openTextDocument(uri);
+    } catch (e) {
+        return '';
+    }
+    await settled(uri, signal);
+
+    const remaining = new Map<string, number>();
+    before.forEach(d => remaining.set(problemKey(d), (remaining.get(problemKey(d)) || 0) + 1));
+    const added = currentProblems(uri).filter(d => {
+        const count = remaining.get(problemKey(d)) || 0;
+        remaining.set(problemKey(d), count - 1);
+        return count <= 0;
+    });
+    const existing = currentProblems(uri).length - added.length;
+    const note = existing ? ` (${existing} earlier problem${existing === 1 ? '' : 's'} remain${existing === 1 ? 's' : ''})` : '';
+
+    if (!added.length) return `Diagnostics for ${displayPath}: no new errors or warnings${note}.`;
+    const listed = added
+        .sort((a, b) => a.severity - b.severity || a.range.start.line - b.range.start.line)
+        .slice(0, MAX_LISTED)
+        .map(d => `- ${formatDiagnostic(d)}`);
+    if (added.length > listed.length) listed.push(`- … ${added.length - listed.length} more`);
+    return `Diagnostics for ${displayPath}: ${added.length} new problem${added.length === 1 ? '' : 's'}${note}. Fix them before moving on:\n${listed.join('\n')}`;
+}
+
+/**
+ * Resolves once the diagnostics of `uri` have stopped changing, or when none
+ * arrive at all within FIRST_REPORT_MS, and after MAX_WAIT_MS at the latest.
+ */
+function settled(uri: vscode.Uri, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const key = uri.toString();
+        let quiet = setTimeout(done, FIRST_REPORT_MS);
+        const limit = setTimeout(done, MAX_WAIT_MS);
+        const listener = vscode.languages.onDidChangeDiagnostics(e => {
+            if (!e.uris.some(changed => changed.toString() === key)) return;
+            clearTimeout(quiet);
+            quiet = setTimeout(done, QUIET_MS);
+        });
+        signal?.addEventListener('abort', done);
+
+        function done() {
+            clearTimeout(quiet);
+            clearTimeout(limit);
+            listener.dispose();
+            signal?.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
+
+function problemKey(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return `${diagnostic.severity}|${diagnostic.source || ''}|${code ?? ''}|${diagnostic.message}`;
+}
@@ -0,0 +1,95 @@
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: ' ' | '-' | '+'; line: string };
+
+/**
+ * Builds a unified diff between two texts. The common prefix and suffix are
+ * trimmed first so typical single-hunk edits stay cheap; anything still too
+ * large for the LCS table is shown as a full replacement.
+ */
+export function unifiedDiff(oldText: string, newText: string, context = 3): string {
+    const a = oldText.split(/\r?\n/);
+    const b = newText.split(/\r?\n/);
+    const ops = diffLines(a, b);
+    if (!ops.some(op => op.kind !== ' ')) return '';
+
+    const hunks: string[] = [];
+    let i = 0;
+    while (i < ops.length) {
+        if (ops[i].kind === ' ') { i++; continue; }
+        let start = Math.max(0, i - context);
+        let end = i;
+        // Extend the hunk while changes are closer than twice the context.
+        while (end < ops.length) {
+            let next = end;
+            while (next < ops.length && ops[next].kind !== ' ') next++;
+            let gap = next;
+            while (gap < ops.length && ops[gap].kind === ' ') gap++;
+            if (gap >= ops.length || gap - next > context * 2) {
+                end = Math.min(ops.length, next + context);
+                break;
+            }
+            end = gap;
+        }
+        const oldStart = ops.slice(0, start).filter(op => op.kind !== '+').length + 1;
+        const newStart = ops.slice(0, start).filter(op => op.kind !== '-').length + 1;
+        const slice = ops.slice(start, end);
+        const oldCount = slice.filter(op => op.kind !== '+').length;
+        const newCount = slice.filter(op => op.kind !== '-').length;
+        hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        slice.forEach(op => hunks.push(`${op.kind}${op.line}`));
+        i = end;
+    }
+    return hunks.join('\n');
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix
+        && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const head: Op[] = a.slice(0, prefix).map(line => ({ kind: ' ', line }));
+    const tail: Op[] = a.slice(a.length - suffix).map(line => ({ kind: ' ', line }));
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...midA.map(line => ({ kind: '-', line } as Op)),
+            ...midB.map(line => ({ kind: '+', line } as Op)),
+            ...tail
+        ];
+    }
+
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const table = new Uint32Array(rows * cols);
+    for (let x = midA.length - 1; x >= 0; x--) {
+        for (let y = midB.length - 1; y >= 0; y--) {
+            table[x * cols + y] = midA[x] === midB[y]
+                ? table[(x + 1) * cols + y + 1] + 1
+                : Math.max(table[(x + 1) * cols + y], table[x * cols + y + 1]);
+        }
+    }
+
+    const middle: Op[] = [];
+    let x = 0;
+    let y = 0;
+    while (x < midA.length && y < midB.length) {
+        if (midA[x] === midB[y]) {
+            middle.push({ kind: ' ', line: midA[x] });
+            x++; y++;
+        } else if (table[(x + 1) * cols + y] >= table[x * cols + y + 1]) {
+            middle.push({ kind: '-', line: midA[x++] });
+        } else {
+            middle.push({ kind: '+', line: midB[y++] });
+        }
+    }
+    while (x < midA.length) middle.push({ kind: '-', line: midA[x++] });
+    while (y < midB.length) middle.push({ kind: '+', line: midB[y++] });
+
+    return [...head, ...middle, ...tail];
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { isMultiRoot } from './sandbox';
+
+export type EditorAction = 'explain' | 'refactor' | 'writeTests' | 'fix';
+
+/** A prompt for the chat and the name a fresh session gets from it. */
+export interface EditorPrompt {
+    title: string;
+    message: string;
+}
+
+const INSTRUCTIONS: { [action in EditorAction]: string } = {
+    explain: 'Explain what the following code does, step by step, and point out anything surprising.',
+    refactor: 'Refactor the following code to make it clearer and easier to maintain without changing its behavior. Apply the change to the file with your edit tools.',
+    writeTests: 'Write unit tests for the following code. Follow the test framework and layout the project already uses, and put the tests in a suitable test file.',
+    fix: 'Fix the problems reported for the following code. Apply the fix to the file with your edit tools.'
+};
+
+const TITLES: { [action in EditorAction]: string } = {
+    explain: 'Explain',
+    refactor: 'Refactor',
+    writeTests: 'Tests for',
+    fix: 'Fix'
+};
+
+/**
+ * Builds the chat prompt for an editor action: the instruction followed by
+ * the code, and the reported problems when given.
+ */
+export function buildEditorPrompt(
+    action: EditorAction,
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    diagnostics: readonly vscode.Diagnostic[] = []
+): EditorPrompt {
+    const parts = [INSTRUCTIONS[action], '', codeBlock(document, range)];
+    if (diagnostics.length) {
+        parts.push('', 'Problems reported:');
+        diagnostics.forEach(d => parts.push(`- ${formatDiagnostic(d)}`));
+    }
+    return { title: `${TITLES[action]} ${fileName(document)}`, message: parts.join('\n') };
+}
+
+/** A free-form question about the code in `range`. */
+export function buildQuestionPrompt(question: string, document: vscode.TextDocument, range: vscode.Range): EditorPrompt {
+    return { title: question.slice(0, 30), message: `${question}\n\n${codeBlock(document, range)}` };
+}
+
+/**
+ * The file path as the file tools expect it, the 1-based line range and the
+ * code itself in a fence tagged with the document's language. `range` is
+ * widened to whole lines.
+ */
+export function codeBlock(document: vscode.TextDocument, range: vscode.Range): string {
+    const { start, end } = lineSpan(range);
+    const code = document.getText(new vscode.Range(start, 0, end, document.lineAt(end).text.length));
+    const lineRange = start === end ? `line ${start + 1}` : `lines ${start + 1}-${end + 1}`;
+    const fence = code.indexOf('```') === -1 ? '```' : '````';
+    return [`File: ${displayPath(document)} (${lineRange})`, `${fence}${document.languageId}`, code, fence].join('\n');
+}
+
+/** `src/app.ts:10-24`, naming the lines `range` covers. */
+export function rangeLabel(document: vscode.TextDocument, range: vscode.Range): string {
+    const { start, end } = lineSpan(range);
+    return `${displayPath(document)}:${start + 1}${end > start ? `-${end + 1}` : ''}`;
+}
+
+/** 0-based first and last line; a selection ending at column 0 stops on the line before. */
+function lineSpan(range: vscode.Range): { start: number; end: number } {
+    const start = range.start.line;
+    const end = range.end.character === 0 && range.end.line > start ? range.end.line - 1 : range.end.line;
+    return { start, end };
+}
+
+export function displayPath(document: vscode.TextDocument): string {
+    return document.isUntitled ? document.fileName : vscode.workspace.asRelativePath(document.uri, isMultiRoot());
+}
+
+function fileName(document: vscode.TextDocument): string {
+    return displayPath(document).split('/').pop() || displayPath(document);
+}
+
+/** `line 12 (error): [ts 2322] Type 'string' is not assignable to type 'number'.` */
+export function formatDiagnostic(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    const source = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+    const severity = vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase();
+    return `line ${diagnostic.range.start.line + 1} (${severity}): ${source ? `[${source}] ` : ''}${diagnostic.message}`;
+}
+
+/**
+ * The diagnostics touching `range`, or those on the cursor's line when the
+ * range is empty.
+ */
+export function diagnosticsAt(document: vscode.TextDocument, range: vscode.Range): vscode.Diagnostic[] {
+    const target = range.isEmpty ? document.lineAt(range.start.line).range : range;
+    return vscode.languages.getDiagnostics(document.uri).filter(d => !!d.range.intersection(target));
+}
+
+/** The smallest range covering `range` and every diagnostic. */
+export function coveringRange(range: vscode.Range, diagnostics: readonly vscode.Diagnostic[]): vscode.Range {
+    return diagnostics.reduce((covered, d) => covered.union(d.range), range);
+}
+
+/**
+ * Offers "Fix with Worker AI" wherever the editor shows a diagnostic. The
+ * action hands the diagnostics to `worker-ai-chat.fixDiagnostic`.
+ */
+export class FixWithAICodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        if (!context.diagnostics.length) return [];
+        const action = new vscode.CodeAction('Fix with Worker AI', vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [...context.diagnostics];
+        action.command = {
+            command: 'worker-ai-chat.fixDiagnostic',
+            title: 'Fix with Worker AI',
+            arguments: [document.uri, range, action.diagnostics]
+        };
+        return [action];
+    }
+}
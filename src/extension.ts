@@ -1,17 +1,165 @@
 import * as vscode from 'vscode';
 import { ChatViewProvider } from './chatViewProvider';
+import { CheckpointStore } from './checkpoints';
+import { CodeBlockActions } from './codeBlocks';
+import { CommandRunner } from './commandRunner';
+import { CONFIG_SECTION, TOKEN_SECRET_KEY } from './config';
+import {
+    buildEditorPrompt,
+    buildQuestionPrompt,
+    coveringRange,
+    diagnosticsAt,
+    EditorAction,
+    FixWithAICodeActionProvider
+} from './editorContext';
+import { TerminalOutputTracker } from './mentions';
+import { PROPOSED_SCHEME, ProposedEditProvider } from './proposedEdits';
+import { WorkspaceSandbox } from './sandbox';
+import { SessionStore } from './sessionStore';
+
+let sessions: SessionStore | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
-    const provider = new ChatViewProvider(context.extensionUri);
+    const proposedEdits = new ProposedEditProvider();
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    const checkpoints = new CheckpointStore(storageUri);
+    const sandbox = new WorkspaceSandbox();
+    sessions = new SessionStore(storageUri, context.workspaceState);
+    const terminal = new TerminalOutputTracker();
+    const commands = new CommandRunner();
+    const codeBlocks = new CodeBlockActions();
+    const provider = new ChatViewProvider(
+        context.extensionUri,
+        context.secrets,
+        proposedEdits,
+        checkpoints,
+        sandbox,
+        sessions,
+        terminal,
+        commands,
+        codeBlocks
+    );
     context.subscriptions.push(
+        proposedEdits,
+        sandbox,
+        terminal,
+        commands,
+        codeBlocks,
+        vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, proposedEdits),
         vscode.window.registerWebviewViewProvider(
             ChatViewProvider.viewType,
             provider,
             {
                 webviewOptions: { retainContextWhenHidden: true }
             }
-        )
+        ),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (!e.affectsConfiguration(CONFIG_SECTION)) return;
+            provider.refreshProvider();
+            provider.refreshModes();
+        }),
+        context.secrets.onDidChange(e => {
+            if (e.key === TOKEN_SECRET_KEY) provider.refreshProvider();
+        }),
+        vscode.languages.registerCodeActionsProvider(
+            [{ scheme: 'file' }, { scheme: 'untitled' }],
+            new FixWithAICodeActionProvider(),
+            { providedCodeActionKinds: FixWithAICodeActionProvider.providedCodeActionKinds }
+        ),
+        vscode.commands.registerCommand('worker-ai-chat.start', () => askAboutSelection(provider)),
+        vscode.commands.registerCommand('worker-ai-chat.explainSelection', () => sendSelection(provider, 'explain')),
+        vscode.commands.registerCommand('worker-ai-chat.refactorSelection', () => sendSelection(provider, 'refactor')),
+        vscode.commands.registerCommand('worker-ai-chat.writeTests', () => sendSelection(provider, 'writeTests')),
+        vscode.commands.registerCommand('worker-ai-chat.fixDiagnostic', (
+            uri?: vscode.Uri,
+            range?: vscode.Range,
+            diagnostics?: vscode.Diagnostic[]
+        ) => fixDiagnostic(provider, uri, range, diagnostics)),
+        vscode.commands.registerCommand('worker-ai-chat.setApiToken', async () => {
+            const token = await vscode.window.showInputBox({
+                prompt: 'API token sent with every request to the configured endpoint',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (token) await context.secrets.store(TOKEN_SECRET_KEY, token.trim());
+        }),
+        vscode.commands.registerCommand('worker-ai-chat.clearApiToken', async () => {
+            await context.secrets.delete(TOKEN_SECRET_KEY);
+            vscode.window.showInformationMessage('Worker AI Chat: API token cleared.');
+        }),
+        vscode.commands.registerCommand('worker-ai-chat.restoreCheckpoint', () => provider.pickCheckpoint()),
+        vscode.commands.registerCommand('worker-ai-chat.exportSession', () => provider.exportSession()),
+        vscode.commands.registerCommand('worker-ai-chat.importSession', () => provider.importSession()),
+        vscode.commands.registerCommand('worker-ai-chat.acceptEdit', (uri?: vscode.Uri) => {
+            provider.resolveEdit(uri, 'accept');
+        }),
+        vscode.commands.registerCommand('worker-ai-chat.rejectEdit', (uri?: vscode.Uri) => {
+            provider.resolveEdit(uri, 'reject');
+        }),
+        vscode.commands.registerCommand('worker-ai-chat.acceptAllEdits', (uri?: vscode.Uri) => {
+            provider.resolveEdit(uri, 'acceptAll');
+        })
     );
 }
 
-export function deactivate() {}
+/**
+ * Asks a typed question, about the selection when there is one. An empty
+ * question without a selection just opens the chat.
+ */
+async function askAboutSelection(provider: ChatViewProvider) {
+    const editor = vscode.window.activeTextEditor;
+    const selection = editor && !editor.selection.isEmpty ? editor.selection : undefined;
+    const question = await vscode.window.showInputBox({
+        prompt: selection ? 'Ask Worker AI about the selected code' : 'Ask Worker AI',
+        ignoreFocusOut: true
+    });
+    if (question === undefined) return;
+    if (editor && selection) {
+        await provider.ask(buildQuestionPrompt(question.trim() || 'Explain this code.', editor.document, selection));
+    } else if (question.trim()) {
+        await provider.ask({ title: question.trim().slice(0, 30), message: question.trim() });
+    } else {
+        await vscode.commands.executeCommand(`${ChatViewProvider.viewType}.focus`);
+    }
+}
+
+async function sendSelection(provider: ChatViewProvider, action: EditorAction) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+        vscode.window.showInformationMessage('Worker AI Chat: select some code first.');
+        return;
+    }
+    await provider.ask(buildEditorPrompt(action, editor.document, editor.selection));
+}
+
+/**
+ * Sends the code around a diagnostic together with its message. Code actions
+ * pass the diagnostics along; from the context menu or the palette the ones
+ * under the cursor or selection are used.
+ */
+async function fixDiagnostic(
+    provider: ChatViewProvider,
+    uri?: vscode.Uri,
+    range?: vscode.Range,
+    diagnostics?: vscode.Diagnostic[]
+) {
+    let document: vscode.TextDocument;
+    if (uri && range && Array.isArray(diagnostics)) {
+        document = await vscode.workspace.openTextDocument(uri);
+    } else {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) return;
+        document = editor.document;
+        range = editor.selection;
+        diagnostics = diagnosticsAt(document, range);
+    }
+    if (!diagnostics.length) {
+        vscode.window.showInformationMessage('Worker AI Chat: no problems reported here.');
+        return;
+    }
+    await provider.ask(buildEditorPrompt('fix', document, coveringRange(range, diagnostics), diagnostics));
+}
+
+export function deactivate() {
+    return sessions?.flush();
+}
@@ -0,0 +1,103 @@
+/**
+ * Converts a glob (`**`, `*`, `?`, `[...]`, `{a,b}`) into a regular expression
+ * matched against a whole `/`-separated relative path.
+ */
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globSource(glob)}$`);
+}
+
+function globSource(glob: string): string {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                const atStart = i === 0 || glob[i - 1] === '/';
+                const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+                if (atStart && atEnd) {
+                    // `**/` matches zero or more directories, a trailing `**` anything below.
+                    source += i + 2 === glob.length ? '.*' : '(?:.*/)?';
+                    i += 2;
+                    continue;
+                }
+                i++;
+                source += '.*';
+            } else {
+                source += '[^/]*';
+            }
+        } else if (c === '?') {
+            source += '[^/]';
+        } else if (c === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${body}]`;
+                i = end;
+            }
+        } else if (c === '{') {
+            braces++;
+            source += '(?:';
+        } else if (c === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (c === ',' && braces > 0) {
+            source += '|';
+        } else if (c === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[++i]);
+        } else {
+            source += escapeRegExp(c);
+        }
+    }
+    return source;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    dirOnly: boolean;
+    pattern: string;
+}
+
+/**
+ * The rules of one `.gitignore` file, relative to the directory holding it.
+ */
+export class GitignoreRules {
+    private readonly _rules: IgnoreRule[] = [];
+
+    constructor(text: string) {
+        for (const raw of text.split(/\r?\n/)) {
+            let line = raw.replace(/\s+$/, '');
+            if (!line || line.startsWith('#')) continue;
+            const negated = line.startsWith('!');
+            if (negated) line = line.slice(1);
+            line = line.replace(/^\\([#!])/, '$1');
+            const dirOnly = line.endsWith('/');
+            if (dirOnly) line = line.replace(/\/+$/, '');
+            if (!line) continue;
+            const anchored = line.includes('/');
+            const glob = anchored ? line.replace(/^\//, '') : `**/${line}`;
+            this._rules.push({ regex: globToRegExp(glob), negated, dirOnly, pattern: raw.trim() });
+        }
+    }
+
+    /**
+     * The verdict of the last matching rule for `path`: the rule's pattern when
+     * it ignores the path, `null` when a negation re-includes it, and
+     * `undefined` when no rule applies.
+     */
+    public test(path: string, isDirectory: boolean): string | null | undefined {
+        let verdict: string | null | undefined;
+        for (const rule of this._rules) {
+            if (rule.dirOnly && !isDirectory) continue;
+            if (rule.regex.test(path)) verdict = rule.negated ? null : rule.pattern;
+        }
+        return verdict;
+    }
+}
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import { TextDecoder } from 'util';
+import { codeBlock, formatDiagnostic, rangeLabel } from './editorContext';
+import { qualifyPath, WorkspaceSandbox } from './sandbox';
+
+const MAX_SUGGESTIONS = 15;
+const FILE_CACHE_MS = 10000;
+const MAX_FILE_CHARS = 100000;
+const MAX_PROBLEMS = 100;
+const MAX_TERMINAL_CHARS = 20000;
+
+export type MentionKind = 'file' | 'selection' | 'problems' | 'terminal';
+
+/**
+ * An `@`-mention picked in the chat input. `value` is the file path for
+ * `file` mentions; `error` is set once resolving it failed.
+ */
+export interface Mention {
+    kind: MentionKind;
+    label: string;
+    value?: string;
+    error?: string;
+}
+
+export interface MentionSuggestion extends Mention {
+    detail: string;
+}
+
+/** A mention resolved into the text the model receives. */
+export interface Attachment extends Mention {
+    content?: string;
+}
+
+const SPECIAL_MENTIONS: MentionSuggestion[] = [
+    { kind: 'selection', label: 'selection', detail: 'Selected code in the active editor' },
+    { kind: 'problems', label: 'problems', detail: 'Errors and warnings from the Problems panel' },
+    { kind: 'terminal', label: 'terminal', detail: 'Output of the last terminal command' }
+];
+
+interface FileCandidate {
+    folder: vscode.WorkspaceFolder;
+    relativePath: string;
+    open: boolean;
+}
+
+/**
+ * Remembers the output of the most recent command: the agent's own
+ * `run_command` calls, and commands typed in the integrated terminal when
+ * shell integration is available (VS Code 1.93+).
+ */
+export class TerminalOutputTracker implements vscode.Disposable {
+    private _last?: { command: string; output: string };
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        if (typeof vscode.window.onDidStartTerminalShellExecution === 'function') {
+            this._disposables.push(vscode.window.onDidStartTerminalShellExecution(e => this._capture(e.execution)));
+        }
+    }
+
+    public get last(): { command: string; output: string } | undefined {
+        return this._last;
+    }
+
+    public record(command: string, output: string) {
+        this._last = { command, output: output.slice(-MAX_TERMINAL_CHARS) };
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    private async _capture(execution: vscode.TerminalShellExecution) {
+        let output = '';
+        try {
+            const stream = execution.read()[Symbol.asyncIterator]();
+            for (;;) {
+                const { value, done } = await stream.next();
+                if (done) break;
+                output = (output + value).slice(-MAX_TERMINAL_CHARS);
+            }
+        } catch (e) {
+            return;
+        }
+        this.record(execution.commandLine.value, stripAnsi(output));
+    }
+}
+
+/**
+ * Backs the `@`-mentions of the chat input: suggests what can be attached and
+ * turns the picked mentions into context for the model. Files go through the
+ * sandbox, so anything the file tools may not read cannot be attached either.
+ */
+export class MentionResolver {
+    private _files?: { at: number; uris: Promise<vscode.Uri[]> };
+
+    constructor(
+        private readonly _sandbox: WorkspaceSandbox,
+        private readonly _terminal: TerminalOutputTracker
+    ) { }
+
+    public async suggest(query: string): Promise<MentionSuggestion[]> {
+        const needle = query.toLowerCase();
+        const suggestions = SPECIAL_MENTIONS.filter(m => m.label.startsWith(needle));
+
+        const ranked = (await this._fileCandidates())
+            .map(candidate => ({ candidate, rank: matchRank(candidate.relativePath, needle) }))
+            .filter(entry => entry.rank !== -1)
+            .sort((a, b) => a.rank - b.rank
+                || Number(b.candidate.open) - Number(a.candidate.open)
+                || a.candidate.relativePath.length - b.candidate.relativePath.length);
+
+        for (const { candidate } of ranked) {
+            if (suggestions.length >= MAX_SUGGESTIONS) break;
+            if (await this._sandbox.exclusionReason(candidate.folder, candidate.relativePath)) continue;
+            const path = qualifyPath(candidate.folder, candidate.relativePath);
+            const directory = path.slice(0, path.lastIndexOf('/') + 1);
+            suggestions.push({
+                kind: 'file',
+                label: path.slice(directory.length),
+                value: path,
+                detail: candidate.open ? `${directory || './'} · open` : directory || './'
+            });
+        }
+        return suggestions;
+    }
+
+    /**
+     * Resolves every mention; one that cannot be resolved carries an `error`
+     * instead of failing the message.
+     */
+    public resolve(mentions: Mention[]): Promise<Attachment[]> {
+        return Promise.all(mentions.map(async mention => {
+            try {
+                return { ...mention, ...await this._resolve(mention) };
+            } catch (e) {
+                return { ...mention, error: e instanceof Error ? e.message : String(e) };
+            }
+        }));
+    }
+
+    private async _resolve(mention: Mention): Promise<{ label?: string; content: string }> {
+        switch (mention.kind) {
+            case 'file': {
+                const { uri, displayPath: path } = await this._sandbox.resolve(mention.value || '');
+                const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+                return {
+                    label: path,
+                    content: text.length > MAX_FILE_CHARS
+                        ? `${text.slice(0, MAX_FILE_CHARS)}\n… (truncated after ${MAX_FILE_CHARS} characters, use read_file for the rest)`
+                        : text
+                };
+            }
+            case 'selection': {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || editor.selection.isEmpty) throw new Error('No code is selected in the editor.');
+                return { label: rangeLabel(editor.document, editor.selection), content: codeBlock(editor.document, editor.selection) };
+            }
+            case 'problems':
+                return { content: this._problems() };
+            case 'terminal': {
+                const last = this._terminal.last;
+                if (!last) throw new Error('No terminal output has been captured yet.');
+                return { content: `$ ${last.command}\n${last.output}` };
+            }
+        }
+        throw new Error(`Unknown mention "@${mention.label}".`);
+    }
+
+    private _problems(): string {
+        const lines: string[] = [];
+        let count = 0;
+        const byFile = vscode.languages.getDiagnostics()
+            .map(([uri, diagnostics]) => ({
+                uri,
+                diagnostics: diagnostics
+                    .filter(d => d.severity <= vscode.DiagnosticSeverity.Warning)
+                    .sort((a, b) => a.severity - b.severity || a.range.start.line - b.range.start.line)
+            }))
+            .filter(entry => entry.diagnostics.length && vscode.workspace.getWorkspaceFolder(entry.uri));
+        for (const { uri, diagnostics } of byFile) {
+            if (count >= MAX_PROBLEMS) break;
+            lines.push(qualifyPath(vscode.workspace.getWorkspaceFolder(uri)!, vscode.workspace.asRelativePath(uri, false)));
+            for (const diagnostic of diagnostics.slice(0, MAX_PROBLEMS - count)) {
+                lines.push(`  ${formatDiagnostic(diagnostic)}`);
+                count++;
+            }
+        }
+        if (!lines.length) return 'No errors or warnings are reported.';
+        const total = byFile.reduce((sum, entry) => sum + entry.diagnostics.length, 0);
+        if (total > count) lines.push(`… ${total - count} more not shown`);
+        return lines.join('\n');
+    }
+
+    /** Open editors first, then every workspace file; the file list is cached briefly. */
+    private async _fileCandidates(): Promise<FileCandidate[]> {
+        if (!this._files || Date.now() - this._files.at > FILE_CACHE_MS) {
+            this._files = { at: Date.now(), uris: Promise.resolve(vscode.workspace.findFiles('**/*', this._sandbox.excludeGlob(), 5000)) };
+        }
+        const open = new Set<string>();
+        vscode.window.tabGroups.all.forEach(group => group.tabs.forEach(tab => {
+            if (tab.input instanceof vscode.TabInputText) open.add(tab.input.uri.toString());
+        }));
+
+        const candidates: FileCandidate[] = [];
+        for (const uri of await this._files.uris) {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            if (!folder) continue;
+            candidates.push({ folder, relativePath: vscode.workspace.asRelativePath(uri, false), open: open.has(uri.toString()) });
+        }
+        return candidates;
+    }
+}
+
+/**
+ * Turns resolved attachments into the blocks appended to the user's message.
+ */
+export function formatAttachments(attachments: Attachment[]): string {
+    return attachments
+        .map(a => `<context source="${escapeAttribute(a.kind)}" name="${escapeAttribute(a.label)}">\n${a.content ?? `Unavailable: ${a.error}`}\n</context>`)
+        .join('\n\n');
+}
+
+/** Keeps a file name or label from closing the `<context>` tag it is placed in. */
+function escapeAttribute(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** 0 for a file name starting with `needle`, 1 for one containing it, 2 for a path containing it, -1 otherwise. */
+function matchRank(relativePath: string, needle: string): number {
+    if (!needle) return 0;
+    const path = relativePath.toLowerCase();
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (name.startsWith(needle)) return 0;
+    if (name.indexOf(needle) !== -1) return 1;
+    return path.indexOf(needle) !== -1 ? 2 : -1;
+}
+
+export function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*(?:\x07|\x1b\\)/g, '');
+}
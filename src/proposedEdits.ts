@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+export const PROPOSED_SCHEME = 'worker-ai-chat-proposed';
+
+const EMPTY_QUERY = 'empty';
+
+interface ProposedEdit {
+    uri: vscode.Uri;
+    content: string;
+}
+
+/**
+ * Serves model-proposed file contents as read-only virtual documents so they
+ * can be reviewed side by side with the current file in VS Code's diff editor.
+ */
+export class ProposedEditProvider implements vscode.TextDocumentContentProvider {
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+    private _edits: Map<string, ProposedEdit> = new Map();
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        if (uri.query === EMPTY_QUERY) return '';
+        return this._edits.get(uri.query)?.content ?? '';
+    }
+
+    /**
+     * Stages `content` for `fileUri` under `id` and opens the diff editor.
+     * Files that do not exist yet are compared against an empty document.
+     */
+    public async show(id: string, fileUri: vscode.Uri, relativePath: string, content: string, isNewFile: boolean) {
+        const path = `/${relativePath.replace(/\\/g, '/').replace(/^\/+/, '')}`;
+        const uri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path, query: id });
+        this._edits.set(id, { uri, content });
+
+        const original = isNewFile
+            ? vscode.Uri.from({ scheme: PROPOSED_SCHEME, path, query: EMPTY_QUERY })
+            : fileUri;
+        const title = `${relativePath} (${isNewFile ? 'new file' : 'proposed'}) ↔ Worker AI`;
+        await vscode.commands.executeCommand('vscode.diff', original, uri, title, { preview: true, preserveFocus: true });
+    }
+
+    /**
+     * Finds the staged edit a diff editor belongs to, for the editor title actions.
+     */
+    public idFor(uri: vscode.Uri | undefined): string | undefined {
+        if (!uri || uri.scheme !== PROPOSED_SCHEME || !this._edits.has(uri.query)) return undefined;
+        return uri.query;
+    }
+
+    /**
+     * Drops a staged edit and closes any diff editor still showing it.
+     */
+    public async discard(id: string) {
+        const edit = this._edits.get(id);
+        if (!edit) return;
+        this._edits.delete(id);
+
+        const tabs: vscode.Tab[] = [];
+        vscode.window.tabGroups.all.forEach(group => group.tabs.forEach(tab => {
+            if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === edit.uri.toString()) {
+                tabs.push(tab);
+            }
+        }));
+        if (tabs.length) await vscode.window.tabGroups.close(tabs);
+    }
+
+    public dispose() {
+        this._edits.clear();
+        this._onDidChange.dispose();
+    }
+}
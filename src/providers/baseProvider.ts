@@ -0,0 +1,147 @@
+import fetch, { RequestInit, Response } from 'node-fetch';
+import { formatToolCall } from '../tools/parser';
+import { ProviderError } from './errors';
+import { ChunkHandler, extractDelta, readEvents, readText } from './streaming';
+import { ChatRequest, ModelProvider, NativeToolCall, ProviderOptions, Role, ToolDefinition } from './types';
+
+export abstract class BaseProvider implements ModelProvider {
+    public abstract readonly name: string;
+    protected abstract readonly defaultEndpoint: string;
+    protected abstract readonly defaultHealthPath: string;
+
+    constructor(protected readonly options: ProviderOptions) { }
+
+    public complete(request: ChatRequest, onChunk?: ChunkHandler): Promise<string> {
+        const tools = this.options.nativeToolCalls ? request.tools : undefined;
+        return this.send({ ...request, tools }, this.options.stream ? onChunk : undefined);
+    }
+
+    /**
+     * Sends the conversation and resolves with the full answer. When `onChunk`
+     * is given the backend is asked to stream and every delta is reported.
+     * Backends with native function calling offer `request.tools` and append
+     * the calls they get back with `appendToolCalls`.
+     */
+    protected abstract send(request: ChatRequest, onChunk?: ChunkHandler): Promise<string>;
+
+    public async checkHealth(): Promise<boolean> {
+        try {
+            const response = await this.request(this.options.healthPath || this.defaultHealthPath, { method: 'GET' });
+            return response.ok;
+        } catch (e) {
+            return false;
+        }
+    }
+
+    protected get endpoint(): string {
+        const endpoint = this.options.endpoint || this.defaultEndpoint;
+        if (!endpoint) {
+            throw new Error('No endpoint configured. Set "worker-ai-chat.endpoint" in your settings.');
+        }
+        return endpoint;
+    }
+
+    protected url(path: string): string {
+        if (!path) return this.endpoint;
+        return `${this.endpoint}${path.startsWith('/') || path.startsWith('?') ? '' : '/'}${path}`;
+    }
+
+    protected headers(extra: Record<string, string> = {}): Record<string, string> {
+        const headers: Record<string, string> = { ...extra };
+        const { authHeader, token } = this.options;
+        if (authHeader && token) {
+            const isAuthorization = authHeader.toLowerCase() === 'authorization';
+            headers[authHeader] = isAuthorization && !token.includes(' ') ? `Bearer ${token}` : token;
+        }
+        return headers;
+    }
+
+    protected async request(path: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> {
+        return fetch(this.url(path), {
+            ...init,
+            headers: this.headers(init.headers as Record<string, string>),
+            timeout: this.options.timeoutMs,
+            signal
+        });
+    }
+
+    protected async post(
+        path: string,
+        body: unknown,
+        headers: Record<string, string> = {},
+        signal?: AbortSignal
+    ): Promise<Response> {
+        const response = await this.request(path, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        }, signal);
+        if (!response.ok) throw await ProviderError.fromResponse(response);
+        return response;
+    }
+
+    protected async postJson(path: string, body: unknown, signal?: AbortSignal): Promise<any> {
+        const response = await this.post(path, body, {}, signal);
+        return response.json();
+    }
+
+    /**
+     * Reads a plain-text or `text/event-stream` answer, streaming it through
+     * `onChunk` when given.
+     */
+    protected async readBody(response: Response, onChunk?: ChunkHandler): Promise<string> {
+        if (!onChunk) return response.text();
+        let answer = '';
+        const emit = (chunk: string) => {
+            if (!chunk) return;
+            answer += chunk;
+            onChunk(chunk);
+        };
+        if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+            await readEvents(response, data => emit(extractDelta(data)));
+        } else {
+            await readText(response, emit);
+        }
+        return answer;
+    }
+
+    /**
+     * Maps a history role onto one the backend accepts. Backends without a
+     * dedicated tool role override this to fold tool output into another one.
+     */
+    protected mapRole(role: Role): string {
+        return role;
+    }
+
+    /** The OpenAI `tools` request field, which Ollama accepts as well. */
+    protected toolsField(tools?: ToolDefinition[]): { tools?: { type: 'function'; function: ToolDefinition }[] } {
+        return tools && tools.length ? { tools: tools.map(tool => ({ type: 'function' as const, function: tool })) } : {};
+    }
+
+    /**
+     * Adds native function calls to the answer in the tool tag format, so the
+     * agent loop and the stored history treat them like calls written as text.
+     */
+    protected appendToolCalls(answer: string, calls: NativeToolCall[]): string {
+        if (!calls.length) return answer;
+        return [answer, ...calls.map(call => formatToolCall(call.name, call.arguments))].filter(part => part).join('\n');
+    }
+
+    /** Function-call arguments arrive as a JSON string (OpenAI) or an object (Ollama). */
+    protected parseArguments(args: unknown): Record<string, unknown> {
+        if (typeof args !== 'string') return (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+        try {
+            const parsed = JSON.parse(args);
+            return parsed && typeof parsed === 'object' ? parsed : {};
+        } catch (e) {
+            return { content: args };
+        }
+    }
+
+    protected toChatMessages(request: ChatRequest): { role: string; content: string }[] {
+        return [
+            { role: 'system', content: request.systemPrompt },
+            ...request.messages.map(msg => ({ role: this.mapRole(msg.role), content: msg.content }))
+        ];
+    }
+}
@@ -0,0 +1,58 @@
+import { Response } from 'node-fetch';
+
+const MAX_DETAIL_LENGTH = 500;
+
+/**
+ * Raised when the backend answers with a non-2xx status. The message is meant
+ * to be shown to the user as-is, so it explains the likely cause instead of
+ * just echoing the status code.
+ */
+export class ProviderError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly statusText: string,
+        public readonly detail: string
+    ) {
+        super(ProviderError.describe(status, statusText, detail));
+        this.name = 'ProviderError';
+    }
+
+    public static async fromResponse(response: Response): Promise<ProviderError> {
+        let detail = '';
+        try {
+            detail = ProviderError.extractDetail(await response.text());
+        } catch (e) { }
+        return new ProviderError(response.status, response.statusText, detail);
+    }
+
+    private static extractDetail(body: string): string {
+        let detail = body.trim();
+        try {
+            const json = JSON.parse(detail);
+            const message = json?.error?.message ?? json?.error ?? json?.message ?? json?.detail;
+            if (typeof message === 'string') detail = message;
+        } catch (e) { }
+        return detail.length > MAX_DETAIL_LENGTH ? `${detail.slice(0, MAX_DETAIL_LENGTH)}…` : detail;
+    }
+
+    private static describe(status: number, statusText: string, detail: string): string {
+        const code = `HTTP ${status}${statusText ? ` ${statusText}` : ''}`;
+        let summary: string;
+        if (status === 413 || status === 414) {
+            summary = `The server rejected the request because the conversation is too large (${code}). ` +
+                'Use "post" for "worker-ai-chat.requestMode" or start a new chat.';
+        } else if (status === 400 || status === 422) {
+            summary = `The server rejected the request payload (${code}).`;
+        } else if (status === 401 || status === 403) {
+            summary = `The server refused the credentials (${code}). ` +
+                'Check the token set with "Worker AI Chat: Set API Token" and the "worker-ai-chat.authHeader" setting.';
+        } else if (status === 404) {
+            summary = `The endpoint was not found (${code}). Check "worker-ai-chat.endpoint" and "worker-ai-chat.provider".`;
+        } else if (status === 429) {
+            summary = `The server is rate limiting requests (${code}). Try again shortly.`;
+        } else {
+            summary = `The server returned an error (${code}).`;
+        }
+        return detail ? `${summary}\n\n${detail}` : summary;
+    }
+}
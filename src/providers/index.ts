@@ -0,0 +1,19 @@
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAIProvider } from './openAIProvider';
+import { ModelProvider, ProviderOptions } from './types';
+import { WorkerProvider } from './workerProvider';
+
+export * from './errors';
+export { ChunkHandler } from './streaming';
+export * from './types';
+
+export function createProvider(options: ProviderOptions): ModelProvider {
+    switch (options.provider) {
+        case 'openai':
+            return new OpenAIProvider(options);
+        case 'ollama':
+            return new OllamaProvider(options);
+        default:
+            return new WorkerProvider(options);
+    }
+}
@@ -0,0 +1,47 @@
+import { BaseProvider } from './baseProvider';
+import { ChunkHandler, extractDelta, readLines } from './streaming';
+import { ChatRequest, NativeToolCall } from './types';
+
+/**
+ * A local Ollama-style server exposing `/api/chat`.
+ */
+export class OllamaProvider extends BaseProvider {
+    public readonly name = 'Ollama';
+    protected readonly defaultEndpoint = 'http://localhost:11434';
+    protected readonly defaultHealthPath = '/api/tags';
+
+    protected async send(request: ChatRequest, onChunk?: ChunkHandler): Promise<string> {
+        const body = {
+            model: this.options.model || 'llama3',
+            messages: this.toChatMessages(request),
+            stream: !!onChunk,
+            ...this.toolsField(request.tools)
+        };
+        if (!onChunk) {
+            const data = await this.postJson('/api/chat', body, request.signal);
+            return this.appendToolCalls(data?.message?.content ?? '', this._toolCalls(data));
+        }
+        let answer = '';
+        const calls: NativeToolCall[] = [];
+        const response = await this.post('/api/chat', body, {}, request.signal);
+        await readLines(response, line => {
+            if (!line.trim()) return;
+            try {
+                calls.push(...this._toolCalls(JSON.parse(line)));
+            } catch (e) { }
+            const delta = extractDelta(line);
+            if (!delta) return;
+            answer += delta;
+            onChunk(delta);
+        });
+        return this.appendToolCalls(answer, calls);
+    }
+
+    /** Ollama sends each function call whole, with its arguments as an object. */
+    private _toolCalls(data: any): NativeToolCall[] {
+        return (data?.message?.tool_calls || []).map((call: any) => ({
+            name: call?.function?.name || '',
+            arguments: this.parseArguments(call?.function?.arguments)
+        }));
+    }
+}
@@ -0,0 +1,64 @@
+import { BaseProvider } from './baseProvider';
+import { ChunkHandler, extractDelta, readEvents } from './streaming';
+import { ChatRequest, NativeToolCall, Role } from './types';
+
+/**
+ * Any server implementing the OpenAI `/v1/chat/completions` API.
+ */
+export class OpenAIProvider extends BaseProvider {
+    public readonly name = 'OpenAI-compatible';
+    protected readonly defaultEndpoint = 'https://api.openai.com';
+    protected readonly defaultHealthPath = '/v1/models';
+
+    protected async send(request: ChatRequest, onChunk?: ChunkHandler): Promise<string> {
+        const body = {
+            model: this.options.model || 'gpt-4o-mini',
+            messages: this.toChatMessages(request),
+            stream: !!onChunk,
+            ...this.toolsField(request.tools)
+        };
+        if (!onChunk) {
+            const data = await this.postJson('/v1/chat/completions', body, request.signal);
+            const message = data?.choices?.[0]?.message;
+            const calls: NativeToolCall[] = (message?.tool_calls || []).map((call: any) => ({
+                name: call?.function?.name || '',
+                arguments: this.parseArguments(call?.function?.arguments)
+            }));
+            return this.appendToolCalls(message?.content ?? '', calls);
+        }
+        let answer = '';
+        // Streamed function calls arrive in pieces keyed by their index.
+        const calls: { name: string; args: string }[] = [];
+        const response = await this.post('/v1/chat/completions', body, { Accept: 'text/event-stream' }, request.signal);
+        await readEvents(response, data => {
+            this._collectToolCallDeltas(data, calls);
+            const delta = extractDelta(data);
+            if (!delta) return;
+            answer += delta;
+            onChunk(delta);
+        });
+        return this.appendToolCalls(answer, calls
+            .filter(call => call)
+            .map(call => ({ name: call.name, arguments: this.parseArguments(call.args) })));
+    }
+
+    protected mapRole(role: Role): string {
+        // The `tool` role requires a `tool_call_id` from native function calling.
+        return role === 'tool' ? 'system' : role;
+    }
+
+    private _collectToolCallDeltas(data: string, calls: { name: string; args: string }[]) {
+        let deltas: any[] | undefined;
+        try {
+            deltas = JSON.parse(data)?.choices?.[0]?.delta?.tool_calls;
+        } catch (e) {
+            return;
+        }
+        (deltas || []).forEach((delta: any, position: number) => {
+            const index = typeof delta?.index === 'number' ? delta.index : position;
+            const call = calls[index] || (calls[index] = { name: '', args: '' });
+            call.name += delta?.function?.name || '';
+            call.args += delta?.function?.arguments || '';
+        });
+    }
+}
@@ -0,0 +1,75 @@
+import { Response } from 'node-fetch';
+import { TextDecoder } from 'util';
+
+export type ChunkHandler = (chunk: string) => void;
+
+/**
+ * Reads a response body as it arrives, decoding UTF-8 across chunk
+ * boundaries, and resolves once the stream ends.
+ */
+export function readText(response: Response, onText: ChunkHandler): Promise<void> {
+    const decoder = new TextDecoder();
+    return new Promise((resolve, reject) => {
+        response.body.on('data', (data: Buffer) => {
+            const text = decoder.decode(data, { stream: true });
+            if (text) onText(text);
+        });
+        response.body.on('end', () => {
+            const rest = decoder.decode();
+            if (rest) onText(rest);
+            resolve();
+        });
+        response.body.on('error', reject);
+    });
+}
+
+/**
+ * Reads a newline-delimited body (NDJSON, SSE) one complete line at a time.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    let buffer = '';
+    await readText(response, text => {
+        buffer += text;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(onLine);
+    });
+    if (buffer) onLine(buffer);
+}
+
+/**
+ * Reads a `text/event-stream` body and hands over the payload of every
+ * `data:` field, stopping at the OpenAI-style `[DONE]` sentinel.
+ */
+export async function readEvents(response: Response, onData: (data: string) => void): Promise<void> {
+    let done = false;
+    await readLines(response, line => {
+        if (done || !line.startsWith('data:')) return;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+            done = true;
+            return;
+        }
+        onData(data);
+    });
+}
+
+/**
+ * Pulls the text delta out of a streamed JSON event. Understands the
+ * Workers AI (`response`), OpenAI (`choices[].delta`) and Ollama (`message`)
+ * shapes and falls back to the raw payload for plain-text events.
+ */
+export function extractDelta(data: string): string {
+    let json: any;
+    try {
+        json = JSON.parse(data);
+    } catch (e) {
+        return data;
+    }
+    if (typeof json === 'string') return json;
+    return json?.response
+        ?? json?.choices?.[0]?.delta?.content
+        ?? json?.choices?.[0]?.text
+        ?? json?.message?.content
+        ?? '';
+}
@@ -0,0 +1,40 @@
+import { ChatConfig } from '../config';
+import { ChunkHandler } from './streaming';
+
+export type Role = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface Message {
+    role: Role;
+    content: string;
+}
+
+/** A tool offered to backends with native function calling; `parameters` is a JSON schema. */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: object;
+}
+
+/** A function call returned by a backend with native function calling. */
+export interface NativeToolCall {
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+    systemPrompt: string;
+    messages: Message[];
+    /** Offered to backends with native function calling when enabled in the settings. */
+    tools?: ToolDefinition[];
+    signal?: AbortSignal;
+}
+
+export interface ProviderOptions extends ChatConfig {
+    token?: string;
+}
+
+export interface ModelProvider {
+    readonly name: string;
+    complete(request: ChatRequest, onChunk?: ChunkHandler): Promise<string>;
+    checkHealth(): Promise<boolean>;
+}
@@ -0,0 +1,41 @@
+import { BaseProvider } from './baseProvider';
+import { ProviderError } from './errors';
+import { ChunkHandler } from './streaming';
+import { ChatRequest } from './types';
+
+/**
+ * The Cloudflare Worker protocol. By default the conversation is POSTed as
+ * `{ messages: [{ role, content }] }`; the `get` request mode keeps the
+ * original behaviour of flattening everything into the `q` query parameter.
+ * Streamed answers may arrive as server-sent events or chunked plain text.
+ */
+export class WorkerProvider extends BaseProvider {
+    public readonly name = 'Cloudflare Worker';
+    protected readonly defaultEndpoint = '';
+    protected readonly defaultHealthPath = '/health';
+
+    protected async send(request: ChatRequest, onChunk?: ChunkHandler): Promise<string> {
+        if (this.options.requestMode === 'get') {
+            return this._sendAsQuery(request, onChunk);
+        }
+        const response = await this.post(
+            '',
+            { messages: this.toChatMessages(request), stream: !!onChunk },
+            onChunk ? { Accept: 'text/event-stream, text/plain' } : {},
+            request.signal
+        );
+        return this.readBody(response, onChunk);
+    }
+
+    private async _sendAsQuery(request: ChatRequest, onChunk?: ChunkHandler): Promise<string> {
+        const historyString = request.messages
+            .map(msg => `${msg.role.charAt(0).toUpperCase()}${msg.role.slice(1)}: ${msg.content}`)
+            .join('\n\n');
+
+        const fullMessage = `${request.systemPrompt}\n\n${historyString}\n\nAssistant:`;
+
+        const response = await this.request(`?q=${encodeURIComponent(fullMessage)}`, {}, request.signal);
+        if (!response.ok) throw await ProviderError.fromResponse(response);
+        return this.readBody(response, onChunk);
+    }
+}
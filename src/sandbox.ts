@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import { getSandboxConfig } from './config';
+import { GitignoreRules, globToRegExp } from './glob';
+
+/**
+ * Raised when a tool tries to reach a path outside the sandbox. The message
+ * goes back to the model verbatim, so it says why and what to do instead.
+ */
+export class AccessDeniedError extends Error {
+    constructor(message: string) {
+        super(`Access denied: ${message}`);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+export interface ResolvedPath {
+    folder: vscode.WorkspaceFolder;
+    uri: vscode.Uri;
+    /** Normalized, `/`-separated and relative to `folder`; empty for the folder itself. */
+    relativePath: string;
+    /** The path as the model should write it: qualified by folder name in multi-root workspaces. */
+    displayPath: string;
+}
+
+/**
+ * How paths are written in the current workspace. With several folders every
+ * path starts with the folder name (`api/src/index.ts`).
+ */
+export function isMultiRoot(): boolean {
+    return (vscode.workspace.workspaceFolders || []).length > 1;
+}
+
+export function qualifyPath(folder: vscode.WorkspaceFolder, relativePath: string): string {
+    if (!isMultiRoot()) return relativePath || '.';
+    return relativePath ? `${folder.name}/${relativePath}` : folder.name;
+}
+
+/**
+ * The single place where tool paths are turned into URIs. Every path is
+ * normalized, must stay inside the workspace folder (symlinks included), and
+ * must not be hidden by `.git`, `.gitignore` or `worker-ai-chat.sandbox.exclude`.
+ */
+export class WorkspaceSandbox implements vscode.Disposable {
+    private _gitignores: Map<string, GitignoreRules | null> = new Map();
+    private readonly _watcher: vscode.FileSystemWatcher;
+
+    constructor() {
+        this._watcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+        const reset = () => this._gitignores.clear();
+        this._watcher.onDidCreate(reset);
+        this._watcher.onDidChange(reset);
+        this._watcher.onDidDelete(reset);
+    }
+
+    /**
+     * Resolves a tool path to a file, or to a directory (possibly a folder
+     * root) when `directory` is set.
+     */
+    public async resolve(inputPath: string, directory = false): Promise<ResolvedPath> {
+        const { folder, relativePath } = this._locate(this._normalize(inputPath), inputPath);
+        if (!relativePath && !directory) {
+            throw new AccessDeniedError(`"${inputPath}" is a workspace folder, not a file.`);
+        }
+        if (relativePath) {
+            const reason = await this.exclusionReason(folder, relativePath, directory);
+            if (reason) throw new AccessDeniedError(`"${inputPath}" ${reason}.`);
+        }
+
+        const uri = relativePath ? vscode.Uri.joinPath(folder.uri, relativePath) : folder.uri;
+        await this._checkRealPath(folder, uri, inputPath);
+        return { folder, uri, relativePath, displayPath: qualifyPath(folder, relativePath) };
+    }
+
+    /**
+     * Why `relativePath` is off-limits, or `undefined` when it may be used.
+     */
+    public async exclusionReason(
+        folder: vscode.WorkspaceFolder,
+        relativePath: string,
+        isDirectory = false
+    ): Promise<string | undefined> {
+        // Case-insensitive file systems, and Windows dropping trailing dots and spaces, resolve `.GIT` or `.git.` to `.git`.
+        if (relativePath.split('/').some(segment => segment.toLowerCase().replace(/[. ]+$/, '') === '.git')) {
+            return 'is inside .git, which the assistant may not access';
+        }
+
+        const config = getSandboxConfig();
+        const pattern = config.exclude.find(glob => globToRegExp(glob).test(relativePath));
+        if (pattern) {
+            return `matches the exclusion pattern "${pattern}" (worker-ai-chat.sandbox.exclude)`;
+        }
+
+        if (config.respectGitignore) {
+            const rule = await this._gitignoreRule(folder, relativePath, isDirectory);
+            if (rule) return `is ignored by .gitignore ("${rule}")`;
+        }
+        return undefined;
+    }
+
+    /**
+     * A `findFiles` exclude glob covering `.git` and the configured exclusions.
+     * Exclusions that use braces cannot be nested in the combined `{a,b}`
+     * group, so they are left out here; like `.gitignore` rules, they are
+     * applied by `exclusionReason` per result.
+     */
+    public excludeGlob(): string {
+        const plain = getSandboxConfig().exclude.filter(glob => !/[{}]/.test(glob));
+        return `{${['**/.git/**', ...plain].join(',')}}`;
+    }
+
+    public dispose() {
+        this._watcher.dispose();
+    }
+
+    private _normalize(inputPath: string): string {
+        const slashed = inputPath.trim().replace(/\\/g, '/');
+        if (!slashed) throw new AccessDeniedError('a path relative to the workspace root is required.');
+        if (slashed.startsWith('/') || slashed.startsWith('~') || /^[a-zA-Z]:/.test(slashed)) {
+            throw new AccessDeniedError(`"${inputPath}" is an absolute path. Use a path relative to the workspace root.`);
+        }
+        const normalized = path.posix.normalize(slashed).replace(/\/+$/, '');
+        if (normalized === '..' || normalized.startsWith('../')) {
+            throw new AccessDeniedError(`"${inputPath}" resolves outside the workspace.`);
+        }
+        return normalized === '.' ? '' : normalized;
+    }
+
+    /**
+     * Picks the workspace folder a normalized path belongs to. In multi-root
+     * workspaces the first segment must name the folder.
+     */
+    private _locate(normalized: string, inputPath: string): { folder: vscode.WorkspaceFolder; relativePath: string } {
+        const folders = vscode.workspace.workspaceFolders;
+        if (!folders || !folders.length) throw new Error('No workspace');
+        if (folders.length === 1) return { folder: folders[0], relativePath: normalized };
+
+        const [head, ...rest] = normalized.split('/');
+        const folder = folders.find(f => f.name === head)
+            || folders.find(f => f.name.toLowerCase() === head.toLowerCase());
+        if (!folder) {
+            throw new Error(`"${inputPath}" does not start with a workspace folder name. ` +
+                `Prefix it with one of: ${folders.map(f => f.name).join(', ')}.`);
+        }
+        return { folder, relativePath: rest.join('/') };
+    }
+
+    /**
+     * Follows symlinks on disk: the closest existing ancestor of the target
+     * must still live under the workspace folder.
+     */
+    private async _checkRealPath(folder: vscode.WorkspaceFolder, uri: vscode.Uri, inputPath: string) {
+        if (uri.scheme !== 'file') return;
+        const root = await fs.promises.realpath(folder.uri.fsPath).catch(() => folder.uri.fsPath);
+        let current = uri.fsPath;
+        for (;;) {
+            try {
+                const real = await fs.promises.realpath(current);
+                if (real !== root && !real.startsWith(root + path.sep)) {
+                    throw new AccessDeniedError(`"${inputPath}" resolves outside the workspace through a symbolic link.`);
+                }
+                return;
+            } catch (e) {
+                if (e instanceof AccessDeniedError) throw e;
+                const parent = path.dirname(current);
+                if (parent === current) return;
+                current = parent;
+            }
+        }
+    }
+
+    /**
+     * Applies every `.gitignore` from the folder root down to the path's
+     * directory, the way git does: once a directory is ignored nothing below
+     * it can be re-included.
+     */
+    private async _gitignoreRule(
+        folder: vscode.WorkspaceFolder,
+        relativePath: string,
+        isDirectory: boolean
+    ): Promise<string | undefined> {
+        const segments = relativePath.split('/');
+        for (let i = 1; i <= segments.length; i++) {
+            const target = segments.slice(0, i);
+            const targetIsDirectory = i < segments.length || isDirectory;
+            let verdict: string | null | undefined;
+            for (let depth = 0; depth < i; depth++) {
+                const rules = await this._rules(folder, segments.slice(0, depth).join('/'));
+                const result = rules?.test(target.slice(depth).join('/'), targetIsDirectory);
+                if (result !== undefined) verdict = result;
+            }
+            if (verdict) return verdict;
+        }
+        return undefined;
+    }
+
+    private async _rules(folder: vscode.WorkspaceFolder, directory: string): Promise<GitignoreRules | null> {
+        const key = `${folder.uri.toString()}|${directory}`;
+        if (!this._gitignores.has(key)) {
+            let rules: GitignoreRules | null = null;
+            try {
+                const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, directory, '.gitignore'));
+                rules = new GitignoreRules(new TextDecoder().decode(data));
+            } catch (e) { }
+            this._gitignores.set(key, rules);
+        }
+        return this._gitignores.get(key)!;
+    }
+}
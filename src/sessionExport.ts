@@ -0,0 +1,104 @@
+import { Message } from './providers';
+import { ChatSession, DisplayMessage } from './sessionStore';
+
+const EXPORT_FORMAT = 'worker-ai-chat.session';
+const EXPORT_VERSION = 1;
+const ROLES = ['system', 'user', 'assistant', 'tool'];
+
+/** A session read back from an export, ready to be stored under a new id. */
+export interface ImportedSession {
+    name: string;
+    mode?: string;
+    history: Message[];
+    messages: DisplayMessage[];
+}
+
+/**
+ * The whole session as JSON: what the chat showed, including tool calls and
+ * their results, and the conversation the model saw, so an import picks up
+ * exactly where the export left off.
+ */
+export function sessionToJson(session: ChatSession): string {
+    const { name, mode, createdAt, updatedAt, history, messages } = session;
+    return JSON.stringify({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: { name, mode, createdAt, updatedAt, history, messages }
+    }, null, 2) + '\n';
+}
+
+/** A readable transcript: user and assistant messages, tool calls folded into `<details>`. */
+export function sessionToMarkdown(session: ChatSession): string {
+    const parts = [
+        `# ${session.name}`,
+        `_Exported from Worker AI Chat on ${new Date().toLocaleString()}_`
+    ];
+    session.messages.forEach(message => {
+        if ('type' in message) {
+            const data = message.data || {};
+            const subject = data.label || data.path;
+            const summary = `${data.code || 'tool'}${subject ? `: ${subject}` : ''} (${data.status || 'unknown'})`;
+            const result = typeof data.result === 'string' && data.result ? `\n\n${fence(data.result)}\n` : '';
+            parts.push(`<details>\n<summary>Tool ${escapeHtml(summary)}</summary>${result}\n</details>`);
+        } else if (message.isUser) {
+            const attached = (message.attachments || []).map(mention => `\`@${mention.label}\``).join(' ');
+            parts.push(`## You\n\n${message.text}${attached ? `\n\nAttached: ${attached}` : ''}`);
+        } else {
+            parts.push(`## Assistant\n\n${message.text}`);
+        }
+    });
+    return parts.join('\n\n') + '\n';
+}
+
+/** Reads an export made by `sessionToJson`; throws with a readable reason otherwise. */
+export function parseSessionExport(text: string): ImportedSession {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error('the file is not valid JSON');
+    }
+    if (!data || data.format !== EXPORT_FORMAT || !data.session) {
+        throw new Error('the file is not a Worker AI Chat session export');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error(`the export has version ${data.version}, which this version of the extension cannot read`);
+    }
+
+    const { name, mode, history, messages } = data.session;
+    if (!Array.isArray(history) || !history.every(isMessage)) {
+        throw new Error('the session history is missing or malformed');
+    }
+    if (!Array.isArray(messages) || !messages.every(isDisplayMessage)) {
+        throw new Error('the session messages are missing or malformed');
+    }
+    return {
+        name: typeof name === 'string' && name.trim() ? name.trim() : 'Imported Chat',
+        mode: typeof mode === 'string' ? mode : undefined,
+        history,
+        // Checkpoints stay with the workspace the chat was exported from.
+        messages: messages.map((message: DisplayMessage) => 'type' in message ? message : { ...message, checkpoint: undefined })
+    };
+}
+
+function isMessage(message: any): message is Message {
+    return !!message && ROLES.indexOf(message.role) !== -1 && typeof message.content === 'string';
+}
+
+function isDisplayMessage(message: any): message is DisplayMessage {
+    if (!message || typeof message !== 'object') return false;
+    if (message.type === 'tool') return typeof message.data === 'object' && message.data !== null;
+    return typeof message.text === 'string' && typeof message.isUser === 'boolean';
+}
+
+/** A code fence longer than any run of backticks in `text`. */
+function fence(text: string): string {
+    const longest = (text.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0);
+    const marker = '`'.repeat(Math.max(3, longest + 1));
+    return `${marker}\n${text.replace(/\s+$/, '')}\n${marker}`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { TextDecoder, TextEncoder } from 'util';
+import { Mention } from './mentions';
+import { Message } from './providers';
+
+const INDEX_KEY = 'worker-ai-chat.sessions';
+const ACTIVE_KEY = 'worker-ai-chat.activeSession';
+const SAVE_DELAY_MS = 500;
+
+/** What the webview renders for a session: chat bubbles and tool cards. */
+export type DisplayMessage =
+    | { text: string; isUser: boolean; turnId?: string; checkpoint?: boolean; attachments?: Mention[] }
+    | { type: 'tool'; data: any };
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** The conversation as the model sees it, tool output included. */
+    history: Message[];
+    messages: DisplayMessage[];
+    /** Id of the chat mode; the configured default when absent. */
+    mode?: string;
+}
+
+interface SessionSummary {
+    id: string;
+    name: string;
+    updatedAt: number;
+}
+
+/**
+ * Owns chat sessions on the extension host. The ordered index and the active
+ * session live in `workspaceState`; each session's model history and display
+ * messages are written to their own file under extension storage.
+ */
+export class SessionStore {
+    private _sessions: Map<string, ChatSession> = new Map();
+    private _order: string[] = [];
+    private _loaded?: Promise<void>;
+    private _pendingSaves: Map<string, NodeJS.Timeout> = new Map();
+
+    constructor(
+        private readonly _storageUri: vscode.Uri,
+        private readonly _state: vscode.Memento
+    ) { }
+
+    private get _dirUri(): vscode.Uri {
+        return vscode.Uri.joinPath(this._storageUri, 'sessions');
+    }
+
+    /** All sessions, most recently created first. */
+    public async list(): Promise<ChatSession[]> {
+        await this._load();
+        return this._order.map(id => this._sessions.get(id)!).filter(s => !!s);
+    }
+
+    public get(id: string): ChatSession | undefined {
+        return this._sessions.get(id);
+    }
+
+    public async ensure(id: string, name = 'New Chat'): Promise<ChatSession> {
+        await this._load();
+        return this._sessions.get(id) || this.create(id, name);
+    }
+
+    public create(id: string, name: string, messages: DisplayMessage[] = []): ChatSession {
+        const now = Date.now();
+        const session: ChatSession = { id, name, createdAt: now, updatedAt: now, history: [], messages };
+        this._sessions.set(id, session);
+        this._order = [id, ...this._order.filter(other => other !== id)];
+        this.touch(id);
+        return session;
+    }
+
+    public rename(id: string, name: string) {
+        const session = this._sessions.get(id);
+        if (!session || !name) return;
+        session.name = name;
+        this.touch(id);
+    }
+
+    public setMode(id: string, mode: string) {
+        const session = this._sessions.get(id);
+        if (!session) return;
+        session.mode = mode;
+        this.touch(id);
+    }
+
+    public clear(id: string) {
+        const session = this._sessions.get(id);
+        if (!session) return;
+        session.history = [];
+        session.messages = [];
+        this.touch(id);
+    }
+
+    public async delete(id: string) {
+        await this._load();
+        this._sessions.delete(id);
+        this._order = this._order.filter(other => other !== id);
+        clearTimeout(this._pendingSaves.get(id)!);
+        this._pendingSaves.delete(id);
+        await this._saveIndex();
+        try {
+            await vscode.workspace.fs.delete(this._fileUri(id));
+        } catch (e) { }
+    }
+
+    public get activeId(): string | undefined {
+        return this._state.get<string>(ACTIVE_KEY);
+    }
+
+    public setActive(id: string) {
+        return this._state.update(ACTIVE_KEY, id);
+    }
+
+    /** Marks a session as changed; it is written shortly after. */
+    public touch(id: string) {
+        const session = this._sessions.get(id);
+        if (!session) return;
+        session.updatedAt = Date.now();
+        clearTimeout(this._pendingSaves.get(id)!);
+        this._pendingSaves.set(id, setTimeout(() => {
+            this._pendingSaves.delete(id);
+            this._saveOrReport(id);
+        }, SAVE_DELAY_MS));
+    }
+
+    /** Writes every pending change now, e.g. before the extension deactivates. */
+    public async flush() {
+        const ids = Array.from(this._pendingSaves.keys());
+        ids.forEach(id => clearTimeout(this._pendingSaves.get(id)!));
+        this._pendingSaves.clear();
+        await Promise.all(ids.map(id => this._saveOrReport(id)));
+    }
+
+    private _fileUri(id: string): vscode.Uri {
+        return vscode.Uri.joinPath(this._dirUri, `${id.replace(/[^\w.-]/g, '_')}.json`);
+    }
+
+    private _load(): Promise<void> {
+        if (!this._loaded) {
+            this._loaded = (async () => {
+                const index = this._state.get<SessionSummary[]>(INDEX_KEY, []);
+                for (const summary of index) {
+                    try {
+                        const data = await vscode.workspace.fs.readFile(this._fileUri(summary.id));
+                        const session: ChatSession = JSON.parse(new TextDecoder().decode(data));
+                        this._sessions.set(session.id, { ...session, name: summary.name });
+                        this._order.push(session.id);
+                    } catch (e) {
+                        // A missing or corrupt file only loses that one session.
+                    }
+                }
+            })();
+        }
+        return this._loaded;
+    }
+
+    private async _save(id: string) {
+        const session = this._sessions.get(id);
+        if (!session) return;
+        await this._saveIndex();
+        await vscode.workspace.fs.writeFile(this._fileUri(id), new TextEncoder().encode(JSON.stringify(session)));
+    }
+
+    /** Saves a session, telling the user when it could not be written instead of rejecting. */
+    private async _saveOrReport(id: string) {
+        try {
+            await this._save(id);
+        } catch (error) {
+            const name = this._sessions.get(id)?.name || id;
+            vscode.window.showErrorMessage(`Worker AI Chat: could not save the chat "${name}": ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private _saveIndex() {
+        const index: SessionSummary[] = this._order
+            .map(id => this._sessions.get(id)!)
+            .filter(s => !!s)
+            .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }));
+        return this._state.update(INDEX_KEY, index);
+    }
+}
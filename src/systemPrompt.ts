@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { TextDecoder } from 'util';
+import { READ_TOOLS } from './approval';
+import { getPromptConfig, getVerifyConfig, ModeSetting, ToolAccess } from './config';
+import { truncateOutput } from './contextBudget';
+import { TOOL_SCHEMAS, toolUsage } from './tools';
+
+/** Longest project instructions file content kept in the prompt, in estimated tokens. */
+const MAX_INSTRUCTIONS_TOKENS = 2000;
+
+const DEFAULT_INTRO = `[SYSTEM OVERRIDE: ELITE ARCHITECT MODE]
+You are an Elite Full-Stack AI Engineer connected to a VS Code Extension.`;
+
+/** A named way of working with the assistant, chosen per chat session. */
+export interface ChatMode {
+    id: string;
+    name: string;
+    description: string;
+    tools: ToolAccess;
+    /** The rules of the mode, placed after the introduction in the system prompt. */
+    instructions: string;
+}
+
+/** Project conventions read from the instructions file of a workspace folder. */
+export interface ProjectInstructions {
+    source: string;
+    text: string;
+}
+
+function builtinModes(): ChatMode[] {
+    const verify = getVerifyConfig().diagnostics
+        ? 'New errors and warnings VS Code reports for an edited file follow the write\'s result; fix them first. Run tests or a build when the change calls for it.'
+        : 'AFTER every write, you MUST run a validation command (e.g., "npm test", "tsc", "ls").';
+    return [
+        {
+            id: 'agent',
+            name: 'Agent',
+            description: 'Reads and edits files and runs commands',
+            tools: 'all',
+            instructions: `Operating Workflow: **READ-WRITE-VERIFY**.
+1. **READ**: Analyze structure/code before edits. Files and output the user attached follow their message in <context> blocks.
+   Locate code with grep_files and find_symbol, then read only the lines you need with start_line/end_line.
+2. **WRITE**: Use <tool code="replace_lines"> for existing files; <tool code="write_file"> ONLY for new ones.
+3. **VERIFY**: ${verify}
+4. **FIX**: If verification fails, immediately fix the error using the output.
+
+Proceed with precision. Execute the next step in the loop.`
+        },
+        {
+            id: 'reviewer',
+            name: 'Reviewer',
+            description: 'Reads and searches the code but changes nothing',
+            tools: 'read',
+            instructions: `Review code without changing it.
+1. **READ**: Files and output the user attached follow their message in <context> blocks. Locate anything else with grep_files and find_symbol and read what you need.
+2. **REPORT**: List bugs, risks and unclear code, most important first, each with its file path and line numbers. Show suggested fixes as code blocks for the user to apply.
+You cannot edit files or run commands in this mode.`
+        },
+        {
+            id: 'chat',
+            name: 'Chat',
+            description: 'Answers without using any tools',
+            tools: 'none',
+            instructions: `Answer questions and discuss code conversationally.
+No tools are available: never write <tool> tags. Work with the files and output the user attached in <context> blocks, and show changes as code blocks the user can apply.`
+        }
+    ];
+}
+
+/** The built-in modes with those from `worker-ai-chat.modes` added or replacing them by name. */
+export function getModes(): ChatMode[] {
+    const modes = builtinModes();
+    getPromptConfig().modes.forEach(setting => {
+        const custom = customMode(setting);
+        const index = modes.findIndex(mode => mode.id === custom.id);
+        if (index === -1) {
+            modes.push(custom);
+        } else {
+            const builtin = modes[index];
+            modes[index] = {
+                ...custom,
+                description: setting.description ? custom.description : builtin.description,
+                tools: setting.tools ? custom.tools : builtin.tools,
+                instructions: setting.instructions ? custom.instructions : builtin.instructions
+            };
+        }
+    });
+    return modes;
+}
+
+/** The mode with `id`, falling back to the configured default and then to the agent. */
+export function findMode(id?: string): ChatMode {
+    const modes = getModes();
+    return modes.find(mode => mode.id === id)
+        || modes.find(mode => mode.id === modeId(getPromptConfig().defaultMode))
+        || modes[0];
+}
+
+/** The tools a mode may call. */
+export function allowedTools(mode: ChatMode): string[] {
+    if (mode.tools === 'none') return [];
+    const names = TOOL_SCHEMAS.map(schema => schema.name);
+    return mode.tools === 'read' ? names.filter(name => READ_TOOLS.indexOf(name) !== -1) : names;
+}
+
+/** The instructions file of every workspace folder that has one. */
+export async function readProjectInstructions(): Promise<ProjectInstructions[]> {
+    const file = getPromptConfig().instructionsFile;
+    if (!file) return [];
+    const folders = vscode.workspace.workspaceFolders || [];
+    const found: ProjectInstructions[] = [];
+    for (const folder of folders) {
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, file));
+            const text = new TextDecoder().decode(data).trim();
+            if (text) found.push({ source: folders.length > 1 ? `${folder.name}/${file}` : file, text });
+        } catch (e) {
+            // Most folders have no instructions file.
+        }
+    }
+    return found;
+}
+
+/**
+ * The complete system prompt: the introduction (built-in or from
+ * `worker-ai-chat.systemPrompt`), the mode's rules, the tools it may use,
+ * the workspace layout and the project's own instructions.
+ */
+export function buildSystemPrompt(mode: ChatMode, workspace: string, instructions: ProjectInstructions[]): string {
+    const tools = allowedTools(mode);
+    const sections = [getPromptConfig().systemPrompt || DEFAULT_INTRO];
+    if (mode.instructions) sections.push(`### 🛠️ ${mode.name.toUpperCase()} MODE\n${mode.instructions}`);
+    if (tools.length) sections.push(`### 🧰 TOOLING (XML ONLY)\n${toolUsage(tools)}`);
+    sections.push(`### 📁 WORKSPACE\n${workspace}`);
+    if (tools.length) {
+        sections.push(`### 🛡️ SAFETY
+- Backups are automatic.
+- Files outside the workspace, inside .git, ignored by .gitignore or excluded in settings are off-limits.`);
+    }
+    instructions.forEach(({ source, text }) => {
+        sections.push(`### 📌 PROJECT INSTRUCTIONS (${source})\n${truncateOutput(text, MAX_INSTRUCTIONS_TOKENS)}`);
+    });
+    return sections.join('\n\n');
+}
+
+function customMode(setting: ModeSetting): ChatMode {
+    const name = setting.name.trim();
+    return {
+        id: modeId(name),
+        name,
+        description: setting.description || '',
+        tools: setting.tools === 'read' || setting.tools === 'none' ? setting.tools : 'all',
+        instructions: setting.instructions || ''
+    };
+}
+
+function modeId(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,199 @@
+import { findTool, TOOL_SCHEMAS } from './registry';
+
+/**
+ * One `<tool>` element found in a model answer. When `error` is set the call
+ * must not run; the message says what is wrong and goes back to the model.
+ */
+export interface ToolCall {
+    code: string;
+    attributes: Record<string, string>;
+    path?: string;
+    content: string;
+    /** The markup exactly as the model wrote it. */
+    raw: string;
+    error?: string;
+}
+
+export interface ParsedAnswer {
+    calls: ToolCall[];
+    /** The answer with all tool markup removed. */
+    text: string;
+}
+
+const OPEN_TAG = /<tool(?=[\s>\/])/g;
+const CLOSE_TAG = '</tool>';
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+const ATTRIBUTE = /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Finds the tool calls in an answer and validates them against the registry.
+ *
+ * Attributes may come in any order, with single, double or no quotes. The
+ * content of a call runs to the last `</tool>` before the next `<tool`, so
+ * content mentioning `</tool>` survives as long as no other call follows in
+ * between; content wrapped in `<![CDATA[ ... ]]>` is taken verbatim.
+ */
+export function parseToolCalls(answer: string): ParsedAnswer {
+    const calls: ToolCall[] = [];
+    let text = '';
+    let position = 0;
+    for (;;) {
+        const start = nextOpenTag(answer, position);
+        if (start === -1) break;
+        text += answer.slice(position, start);
+        const { call, end } = parseElement(answer, start);
+        calls.push(call.error ? call : validate(call));
+        position = end;
+    }
+    text += answer.slice(position);
+    return { calls, text };
+}
+
+/**
+ * The part of a streaming answer that can be shown: complete calls are
+ * removed, and everything from an unfinished `<tool` onwards is held back.
+ */
+export function visibleText(streamed: string): string {
+    const start = nextOpenTag(streamed, 0);
+    const partial = streamed.lastIndexOf('<');
+    if (start === -1) {
+        return partial !== -1 && '<tool'.startsWith(streamed.slice(partial)) ? streamed.slice(0, partial) : streamed;
+    }
+    const { call, end } = parseElement(streamed, start);
+    if (end >= streamed.length && call.error) return streamed.slice(0, start);
+    return streamed.slice(0, start) + visibleText(streamed.slice(end));
+}
+
+function nextOpenTag(text: string, from: number): number {
+    OPEN_TAG.lastIndex = from;
+    const match = OPEN_TAG.exec(text);
+    return match ? match.index : -1;
+}
+
+/** Parses the element starting at `start`; `end` is where the text after it begins. */
+function parseElement(text: string, start: number): { call: ToolCall; end: number } {
+    let attributes: Record<string, string> = {};
+    let code = '';
+    const malformed = (end: number, reason: string) => ({
+        call: { code, attributes, content: '', raw: text.slice(start, end), error: `Malformed tool call: ${reason}.` },
+        end
+    });
+
+    const tagEnd = findTagEnd(text, start + '<tool'.length);
+    if (tagEnd === -1) return malformed(text.length, 'the <tool ...> tag is never closed with ">"');
+    const selfClosing = text[tagEnd - 1] === '/';
+    attributes = parseAttributes(text.slice(start + '<tool'.length, selfClosing ? tagEnd - 1 : tagEnd));
+    code = attributes.code ?? attributes.name ?? '';
+    const element = (content: string, end: number): { call: ToolCall; end: number } => ({
+        call: { code, attributes, path: attributes.path, content, raw: text.slice(start, end) },
+        end
+    });
+
+    if (selfClosing) return element('', tagEnd + 1);
+
+    const contentStart = tagEnd + 1;
+    const leading = /^\s*/.exec(text.slice(contentStart))![0].length;
+    if (text.startsWith(CDATA_OPEN, contentStart + leading)) {
+        const cdataStart = contentStart + leading + CDATA_OPEN.length;
+        const cdataEnd = text.indexOf(CDATA_CLOSE, cdataStart);
+        if (cdataEnd === -1) return malformed(text.length, 'the <![CDATA[ section is never closed with "]]>"');
+        const after = cdataEnd + CDATA_CLOSE.length;
+        const close = /^\s*<\/tool>/.exec(text.slice(after));
+        if (!close) return malformed(after, 'expected </tool> right after the CDATA section');
+        return element(text.slice(cdataStart, cdataEnd), after + close[0].length);
+    }
+
+    const next = nextOpenTag(text, contentStart);
+    const close = text.lastIndexOf(CLOSE_TAG, (next === -1 ? text.length : next) - CLOSE_TAG.length);
+    if (close < contentStart) {
+        return malformed(next === -1 ? text.length : next, `the <tool code="${code}"> element is never closed with </tool>`);
+    }
+    return element(text.slice(contentStart, close), close + CLOSE_TAG.length);
+}
+
+/** Index of the `>` ending the open tag, skipping quoted attribute values. */
+function findTagEnd(text: string, from: number): number {
+    let quote = '';
+    for (let i = from; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === quote) quote = '';
+        } else if (c === '"' || c === '\'') {
+            quote = c;
+        } else if (c === '>') {
+            return i;
+        } else if (c === '<') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = new RegExp(ATTRIBUTE.source, 'g');
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+        const value = match[2] ?? match[3] ?? match[4] ?? '';
+        attributes[match[1].toLowerCase()] = decodeEntities(value);
+    }
+    return attributes;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+function validate(call: ToolCall): ToolCall {
+    const names = TOOL_SCHEMAS.map(schema => schema.name).join(', ');
+    if (!call.code) {
+        return { ...call, error: `Malformed tool call: the <tool> tag needs a code attribute naming one of: ${names}.` };
+    }
+    const schema = findTool(call.code);
+    if (!schema) return { ...call, error: `Unknown tool "${call.code}". Available tools: ${names}.` };
+
+    const missing = schema.attributes.find(attribute => attribute.required && !(call.attributes[attribute.name] || '').trim());
+    if (missing) {
+        return { ...call, error: `Malformed ${call.code} call: the required attribute "${missing.name}" is missing.` };
+    }
+    if (schema.content === 'required' && !call.content.trim()) {
+        return { ...call, error: `Malformed ${call.code} call: nothing between <tool> and </tool>. Expected: ${schema.contentDescription}` };
+    }
+    const problem = schema.validate?.(call.content, call.attributes);
+    return problem ? { ...call, error: `Malformed ${call.code} call: ${problem}.` } : call;
+}
+
+/**
+ * Writes a native function call in the tag format, so it is handled and
+ * stored exactly like a call the model wrote as text.
+ */
+export function formatToolCall(name: string, args: Record<string, unknown>): string {
+    const schema = findTool(name);
+    const values: Record<string, string> = {};
+    Object.keys(args || {}).forEach(key => {
+        const value = args[key];
+        values[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    });
+    const attributeNames = schema
+        ? schema.attributes.map(attribute => attribute.name)
+        : Object.keys(values).filter(key => key !== 'content');
+    const attributes = attributeNames
+        .filter(key => values[key] !== undefined)
+        .map(key => ` ${key}="${escapeAttribute(values[key])}"`)
+        .join('');
+    const content = schema?.toContent ? schema.toContent(values) : values.content ?? '';
+    const body = content.indexOf(CLOSE_TAG) !== -1 && content.indexOf(CDATA_CLOSE) === -1
+        ? `${CDATA_OPEN}${content}${CDATA_CLOSE}`
+        : content;
+    return `<tool code="${escapeAttribute(name)}"${attributes}>${body}</tool>`;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
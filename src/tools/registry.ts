@@ -0,0 +1,183 @@
+import { ToolDefinition } from '../providers';
+
+export interface ToolAttribute {
+    name: string;
+    description: string;
+    required: boolean;
+}
+
+/** A named value of a native function call that is folded into the tool's content. */
+export interface ToolArgument {
+    name: string;
+    description: string;
+}
+
+/**
+ * Everything the agent knows about one tool: how it is advertised in the
+ * system prompt and to native function calling, and what a valid call needs.
+ */
+export interface ToolSchema {
+    name: string;
+    description: string;
+    attributes: ToolAttribute[];
+    /** Whether text between `<tool>` and `</tool>` is required, allowed or ignored. */
+    content: 'required' | 'optional' | 'none';
+    contentDescription?: string;
+    /** The lines shown for the tool in the system prompt. */
+    usage: string;
+    /**
+     * Native function-calling arguments making up the content, for tools whose
+     * content has structure of its own. Defaults to a single `content` string.
+     */
+    contentArguments?: ToolArgument[];
+    toContent?(args: Record<string, string>): string;
+    /** What the call works on, for its card in the chat. Defaults to the path. */
+    label?(content: string, attributes: Record<string, string>): string;
+    /** Checks a call whose required attributes are present; returns what is wrong with it. */
+    validate?(content: string, attributes: Record<string, string>): string | undefined;
+}
+
+export const TOOL_SCHEMAS: ToolSchema[] = [
+    {
+        name: 'replace_lines',
+        description: 'Replace an exact block of lines in an existing file.',
+        attributes: [{ name: 'path', description: 'File to edit, relative to the workspace root.', required: true }],
+        content: 'required',
+        contentDescription: 'A <search> block with the exact current lines and a <replace> block with their replacement.',
+        usage: '<tool code="replace_lines" path="file.ext">\n<search>Exact lines</search>\n<replace>New lines</replace>\n</tool>\n',
+        contentArguments: [
+            { name: 'search', description: 'The exact lines currently in the file.' },
+            { name: 'replace', description: 'The lines to put in their place.' }
+        ],
+        toContent: args => `<search>${args.search ?? ''}</search>\n<replace>${args.replace ?? ''}</replace>`,
+        validate: content => /<search>[\s\S]*?<\/search>/.test(content) && /<replace>[\s\S]*?<\/replace>/.test(content)
+            ? undefined
+            : 'the content needs a <search>...</search> block followed by a <replace>...</replace> block'
+    },
+    {
+        name: 'write_file',
+        description: 'Create a new file, or overwrite a file with the given content.',
+        attributes: [{ name: 'path', description: 'File to write, relative to the workspace root.', required: true }],
+        content: 'optional',
+        contentDescription: 'The complete file content.',
+        usage: '<tool code="write_file" path="file.ext">CONTENT</tool>'
+    },
+    {
+        name: 'read_file',
+        description: 'Read a file from the workspace, optionally only a range of its lines.',
+        attributes: [
+            { name: 'path', description: 'File to read, relative to the workspace root.', required: true },
+            { name: 'start_line', description: 'First line to read (1-based).', required: false },
+            { name: 'end_line', description: 'Last line to read (inclusive).', required: false }
+        ],
+        content: 'none',
+        usage: '<tool code="read_file" path="file.ext"></tool>\n' +
+            '<tool code="read_file" path="file.ext" start_line="40" end_line="80"></tool> (only those lines, numbered)',
+        label: (content, attributes) => attributes.start_line || attributes.end_line
+            ? `${attributes.path}:${attributes.start_line || 1}-${attributes.end_line || 'end'}`
+            : attributes.path,
+        validate: (content, attributes) => ['start_line', 'end_line']
+            .filter(name => attributes[name] !== undefined && !/^\d+$/.test(attributes[name].trim()))
+            .map(name => `${name} must be a positive line number`)[0]
+    },
+    {
+        name: 'list_files',
+        description: 'List the files in the workspace.',
+        attributes: [],
+        content: 'none',
+        usage: '<tool code="list_files"></tool>'
+    },
+    {
+        name: 'grep_files',
+        description: 'Search file contents across the workspace and return the matching lines with context.',
+        attributes: [
+            { name: 'path', description: 'File or directory to search instead of the whole workspace.', required: false },
+            { name: 'include', description: 'Glob for the files to search, e.g. *.ts.', required: false },
+            { name: 'regex', description: 'Set to "false" to search for the literal text.', required: false },
+            { name: 'context', description: 'Lines of context around each match (default 2).', required: false }
+        ],
+        content: 'required',
+        contentDescription: 'The regular expression to search for; case-insensitive unless it contains upper-case letters.',
+        usage: '<tool code="grep_files" include="*.ts">REGEX</tool> (optional: path="dir", regex="false", context="2")',
+        label: (content, attributes) => `${content.trim()}${attributes.path ? ` in ${attributes.path}` : ''}${attributes.include ? ` (${attributes.include})` : ''}`
+    },
+    {
+        name: 'find_symbol',
+        description: 'Find where a function, class, variable or other symbol is defined, and optionally its references.',
+        attributes: [
+            { name: 'path', description: 'File where the symbol is used; with line, its definition is looked up from there.', required: false },
+            { name: 'line', description: 'Line in path where the symbol is used (1-based).', required: false },
+            { name: 'references', description: 'Set to "true" to also list the references to the symbol.', required: false }
+        ],
+        content: 'required',
+        contentDescription: 'The symbol name.',
+        usage: '<tool code="find_symbol">SymbolName</tool> (optional: references="true"; path="file.ext" line="12" to resolve a usage)',
+        label: (content, attributes) => `${content.trim()}${attributes.references === 'true' ? ' + references' : ''}`,
+        validate: (content, attributes) => attributes.line !== undefined && !/^\d+$/.test(attributes.line.trim())
+            ? 'line must be a positive line number'
+            : undefined
+    },
+    {
+        name: 'run_command',
+        description: 'Run a shell command in the workspace and return its output.',
+        attributes: [{ name: 'path', description: 'Directory to run in instead of the workspace root.', required: false }],
+        content: 'required',
+        contentDescription: 'The shell command line.',
+        label: content => content.trim().split('\n')[0],
+        usage: '<tool code="run_command">COMMAND</tool>\n' +
+            '<tool code="run_command" path="dir">COMMAND</tool> (runs in "dir" instead of the workspace root)'
+    },
+    {
+        name: 'restore_file',
+        description: 'Restore a file from its latest backup.',
+        attributes: [{ name: 'path', description: 'File to restore, relative to the workspace root.', required: true }],
+        content: 'none',
+        usage: '<tool code="restore_file" path="file.ext">Restores latest backup.</tool>'
+    }
+];
+
+export function findTool(name: string): ToolSchema | undefined {
+    return TOOL_SCHEMAS.find(schema => schema.name === name);
+}
+
+/** A one-line summary of a call for its tool card. */
+export function toolLabel(code: string, content: string, attributes: Record<string, string>): string {
+    const schema = findTool(code);
+    const label = schema?.label ? schema.label(content, attributes) : attributes.path || '';
+    return label.length > 80 ? `${label.slice(0, 77)}...` : label;
+}
+
+/** The schemas of the named tools, or of all tools. */
+function schemas(names?: string[]): ToolSchema[] {
+    return names ? TOOL_SCHEMAS.filter(schema => names.indexOf(schema.name) !== -1) : TOOL_SCHEMAS;
+}
+
+/** The tooling section of the system prompt, optionally limited to some tools. */
+export function toolUsage(names?: string[]): string {
+    return schemas(names).map(schema => schema.usage).join('\n') +
+        '\n\nAttributes may use single or double quotes. Wrap content that itself contains </tool> in <![CDATA[ ... ]]>.';
+}
+
+/** The tools as JSON-schema function definitions for native function calling. */
+export function toolDefinitions(names?: string[]): ToolDefinition[] {
+    return schemas(names).map(schema => {
+        const properties: Record<string, { type: 'string'; description: string }> = {};
+        const required: string[] = [];
+        schema.attributes.forEach(attribute => {
+            properties[attribute.name] = { type: 'string', description: attribute.description };
+            if (attribute.required) required.push(attribute.name);
+        });
+        if (schema.content !== 'none') {
+            const args = schema.contentArguments || [{ name: 'content', description: schema.contentDescription || '' }];
+            args.forEach(arg => {
+                properties[arg.name] = { type: 'string', description: arg.description };
+                if (schema.content === 'required') required.push(arg.name);
+            });
+        }
+        return {
+            name: schema.name,
+            description: schema.description,
+            parameters: { type: 'object', properties, required }
+        };
+    });
+}
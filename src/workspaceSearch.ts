@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { TextDecoder } from 'util';
+import { qualifyPath, WorkspaceSandbox } from './sandbox';
+
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_MATCHES = 200;
+const DEFAULT_CONTEXT = 2;
+const MAX_SYMBOLS = 20;
+const MAX_REFERENCES = 50;
+
+export interface GrepOptions {
+    /** File or directory to search, relative to the workspace; everything when absent. */
+    path?: string;
+    /** Glob for the files to search, e.g. `*.ts`; matched at any depth without a `/`. */
+    include?: string;
+    /** `"false"` searches for the literal text instead of a regular expression. */
+    regex?: string;
+    /** Lines of context around each match. */
+    context?: string;
+}
+
+export interface SymbolOptions {
+    /** With `line`, the file where `name` is used; its definition is looked up from there. */
+    path?: string;
+    line?: string;
+    /** `"true"` also lists the references to the symbol. */
+    references?: string;
+}
+
+interface SymbolHit {
+    uri: vscode.Uri;
+    position: vscode.Position;
+    description: string;
+}
+
+/**
+ * The agent's search tools. Results only ever name files the sandbox lets the
+ * agent read, and every path is written the way the file tools expect it.
+ */
+export class WorkspaceSearch {
+    constructor(private readonly _sandbox: WorkspaceSandbox) { }
+
+    /**
+     * Searches file contents like `grep -n -C`. Matching is case-insensitive
+     * unless the pattern contains an upper-case letter.
+     */
+    public async grep(pattern: string, options: GrepOptions, signal?: AbortSignal): Promise<string> {
+        const matcher = this._matcher(pattern, options.regex !== 'false');
+        const requested = parseInt(options.context || '', 10);
+        const context = Math.min(10, Math.max(0, Number.isNaN(requested) ? DEFAULT_CONTEXT : requested));
+        const files = await this._files(options);
+
+        const sections: string[] = [];
+        let matches = 0;
+        let searched = 0;
+        for (const file of files) {
+            if (matches >= MAX_MATCHES || signal?.aborted) break;
+            const text = await this._readText(file.uri);
+            if (text === undefined) continue;
+            searched++;
+
+            const lines = text.split(/\r?\n/);
+            const hits: number[] = [];
+            for (let i = 0; i < lines.length && matches + hits.length < MAX_MATCHES; i++) {
+                if (matcher.test(lines[i])) hits.push(i);
+            }
+            if (!hits.length) continue;
+            matches += hits.length;
+            sections.push(`${file.path}\n${contextBlock(lines, hits, context)}`);
+        }
+
+        if (!sections.length) return `No matches for ${pattern} in ${searched} file${searched === 1 ? '' : 's'}.`;
+        const capped = matches >= MAX_MATCHES ? `\n\nStopped after ${MAX_MATCHES} matches; narrow the search with path or include.` : '';
+        return `${matches} match${matches === 1 ? '' : 'es'}:\n\n${sections.join('\n\n')}${capped}`;
+    }
+
+    /**
+     * Finds where a symbol is defined, through the workspace symbol provider
+     * or, given a file and line where it is used, the definition provider.
+     * Optionally lists its references as well.
+     */
+    public async findSymbol(name: string, options: SymbolOptions): Promise<string> {
+        if (!name) throw new Error('find_symbol needs the symbol name as its content.');
+        const hits = options.path && options.line
+            ? await this._definitionsFrom(name, options.path, options.line)
+            : await this._workspaceSymbols(name);
+        if (!hits.length) {
+            return `No definition found for "${name}". The language extension may still be loading; grep_files finds plain text.`;
+        }
+
+        const sections = [`Definitions of "${name}":\n${(await Promise.all(hits.map(hit => this._describe(hit)))).join('\n')}`];
+        if (options.references === 'true') {
+            const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+                'vscode.executeReferenceProvider', hits[0].uri, hits[0].position
+            ) || [];
+            const visible = (await Promise.all(locations.map(async location => (await this._allowed(location.uri))
+                ? this._describe({ uri: location.uri, position: location.range.start, description: '' })
+                : undefined))).filter((line): line is string => !!line);
+            const shown = visible.slice(0, MAX_REFERENCES);
+            const more = visible.length > shown.length ? `\n… ${visible.length - shown.length} more` : '';
+            sections.push(`References (${visible.length}):\n${shown.join('\n') || '(none)'}${more}`);
+        }
+        return sections.join('\n\n');
+    }
+
+    private _matcher(pattern: string, regex: boolean): RegExp {
+        if (!pattern) throw new Error('grep_files needs a search pattern as its content.');
+        const source = regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const flags = /[A-Z]/.test(pattern) ? '' : 'i';
+        try {
+            return new RegExp(source, flags);
+        } catch (e) {
+            throw new Error(`Invalid regular expression ${pattern}: ${e instanceof Error ? e.message : e}. Set regex="false" to search for the literal text.`);
+        }
+    }
+
+    private async _files(options: GrepOptions): Promise<{ uri: vscode.Uri; path: string }[]> {
+        const include = options.include ? (options.include.indexOf('/') === -1 ? `**/${options.include}` : options.include) : '**/*';
+        let uris: vscode.Uri[];
+        if (options.path) {
+            const { uri } = await this._sandbox.resolve(options.path, true);
+            const stat = await vscode.workspace.fs.stat(uri);
+            uris = stat.type & vscode.FileType.Directory
+                ? await vscode.workspace.findFiles(new vscode.RelativePattern(uri, include), this._sandbox.excludeGlob(), MAX_FILES)
+                : [uri];
+        } else {
+            uris = await vscode.workspace.findFiles(include, this._sandbox.excludeGlob(), MAX_FILES);
+        }
+
+        const files: { uri: vscode.Uri; path: string }[] = [];
+        for (const uri of uris) {
+            const path = await this._allowed(uri);
+            if (path) files.push({ uri, path });
+        }
+        return files.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /** The display path of `uri` when the sandbox lets the agent see it. */
+    private async _allowed(uri: vscode.Uri): Promise<string | undefined> {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) return undefined;
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
+        if (await this._sandbox.exclusionReason(folder, relativePath)) return undefined;
+        return qualifyPath(folder, relativePath);
+    }
+
+    /** The file as text, or `undefined` for large and binary files. */
+    private async _readText(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.size > MAX_FILE_BYTES) return undefined;
+            const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+            return text.indexOf('\u0000') === -1 ? text : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    private async _workspaceSymbols(name: string): Promise<SymbolHit[]> {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider', name
+        ) || [];
+        const lower = name.toLowerCase();
+        const ranked = symbols
+            .filter(symbol => symbol.name.toLowerCase().indexOf(lower) !== -1)
+            .sort((a, b) => Number(b.name === name) - Number(a.name === name) || a.name.length - b.name.length);
+
+        const hits: SymbolHit[] = [];
+        for (const symbol of ranked) {
+            if (hits.length >= MAX_SYMBOLS) break;
+            if (!await this._allowed(symbol.location.uri)) continue;
+            const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+            hits.push({
+                uri: symbol.location.uri,
+                position: symbol.location.range.start,
+                description: `${vscode.SymbolKind[symbol.kind]} ${symbol.name}${container}`
+            });
+        }
+        return hits;
+    }
+
+    private async _definitionsFrom(name: string, inputPath: string, line: string): Promise<SymbolHit[]> {
+        const { uri, displayPath } = await this._sandbox.resolve(inputPath);
+        const document = await vscode.workspace.openTextDocument(uri);
+        const lineIndex = parseInt(line, 10) - 1;
+        if (!(lineIndex >= 0 && lineIndex < document.lineCount)) {
+            throw new Error(`Line ${line} is outside "${displayPath}" (${document.lineCount} lines).`);
+        }
+        const column = document.lineAt(lineIndex).text.indexOf(name);
+        if (column === -1) throw new Error(`"${name}" does not appear on line ${line} of "${displayPath}".`);
+
+        const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+            'vscode.executeDefinitionProvider', uri, new vscode.Position(lineIndex, column)
+        ) || [];
+        const hits: SymbolHit[] = [];
+        for (const result of results) {
+            const target = 'targetUri' in result
+                ? { uri: result.targetUri, range: result.targetSelectionRange || result.targetRange }
+                : result;
+            if (!await this._allowed(target.uri)) continue;
+            hits.push({ uri: target.uri, position: target.range.start, description: name });
+        }
+        return hits;
+    }
+
+    /** `src/app.ts:12  export function start() {` preceded by the hit's description. */
+    private async _describe(hit: SymbolHit): Promise<string> {
+        const path = await this._allowed(hit.uri) || hit.uri.fsPath;
+        let text = '';
+        try {
+            const document = await vscode.workspace.openTextDocument(hit.uri);
+            text = document.lineAt(hit.position.line).text.trim();
+        } catch (e) { }
+        const location = `${path}:${hit.position.line + 1}`;
+        return `${hit.description ? `${hit.description} — ` : ''}${location}${text ? `  ${text}` : ''}`;
+    }
+}
+
+/**
+ * `grep -n -C` style lines: `12:` marks a match, `11-` context, and `--`
+ * separates groups that are not adjacent.
+ */
+function contextBlock(lines: string[], hits: number[], context: number): string {
+    const out: string[] = [];
+    let last = -1;
+    hits.forEach(hit => {
+        const from = Math.max(0, hit - context, last + 1);
+        const to = Math.min(lines.length - 1, hit + context);
+        if (last !== -1 && from > last + 1) out.push('--');
+        for (let i = from; i <= to; i++) {
+            out.push(`${i + 1}${hits.indexOf(i) !== -1 ? ':' : '-'} ${lines[i]}`);
+        }
+        last = Math.max(last, to);
+    });
+    return out.join('\n');
+}